@@ -18,7 +18,7 @@ import {
 } from 'vscode';
 
 import {
-	Message, RPCMessageType, Logger, ErrorCodes, ResponseError,
+	Message, RPCMessageType, Logger, ErrorCodes, ResponseError, RequestOptions, AbortSignalLike, MessageInterceptor, ConnectionStrategy, HeartbeatOptions,
 	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler,
 	NotificationType, NotificationType0,
 	NotificationHandler, NotificationHandler0, GenericNotificationHandler,
@@ -88,16 +88,16 @@ interface IConnection {
 
 	listen(): void;
 
-	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
-	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
-	sendRequest<R>(method: string, token?: CancellationToken): Thenable<R>;
-	sendRequest<R>(method: string, param: any, token?: CancellationToken): Thenable<R>;
+	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<R>(method: string, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<R>(method: string, param: any, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 	sendRequest<R>(type: string | RPCMessageType, ...params: any[]): Thenable<R>;
 
-	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): void;
-	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): void;
-	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): void;
-	onRequest<R, E>(method: string | RPCMessageType, handler: GenericRequestHandler<R, E>): void;
+	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): Disposable;
+	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): Disposable;
+	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): Disposable;
+	onRequest<R, E>(method: string | RPCMessageType, handler: GenericRequestHandler<R, E>): Disposable;
 
 	sendNotification<RO>(type: NotificationType0<RO>): void;
 	sendNotification<P, RO>(type: NotificationType<P, RO>, params?: P): void;
@@ -105,14 +105,18 @@ interface IConnection {
 	sendNotification(method: string, params: any): void;
 	sendNotification(method: string | RPCMessageType, params?: any): void;
 
-	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): void;
-	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): void;
-	onNotification(method: string, handler: GenericNotificationHandler): void;
-	onNotification(method: string | RPCMessageType, handler: GenericNotificationHandler): void;
+	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): Disposable;
+	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): Disposable;
+	onNotification(method: string, handler: GenericNotificationHandler): Disposable;
+	onNotification(method: string | RPCMessageType, handler: GenericNotificationHandler): Disposable;
 
 	onProgress<P>(type: ProgressType<P>, token: string | number, handler: NotificationHandler<P>): Disposable;
 	sendProgress<P>(type: ProgressType<P>, token: string | number, value: P): void;
 
+	addInterceptor(interceptor: MessageInterceptor): Disposable;
+
+	onUnresponsive: Event<void>;
+
 	trace(value: Trace, tracer: Tracer, sendNotification?: boolean): void;
 	trace(value: Trace, tracer: Tracer, traceOptions?: TraceOptions): void;
 
@@ -158,11 +162,11 @@ interface ConnectionErrorHandler {
 interface ConnectionCloseHandler {
 	(): void;
 }
-function createConnection(inputStream: NodeJS.ReadableStream, outputStream: NodeJS.WritableStream, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler): IConnection;
-function createConnection(reader: MessageReader, writer: MessageWriter, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler): IConnection;
-function createConnection(input: any, output: any, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler): IConnection {
+function createConnection(inputStream: NodeJS.ReadableStream, outputStream: NodeJS.WritableStream, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler, strategy?: ConnectionStrategy): IConnection;
+function createConnection(reader: MessageReader, writer: MessageWriter, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler, strategy?: ConnectionStrategy): IConnection;
+function createConnection(input: any, output: any, errorHandler: ConnectionErrorHandler, closeHandler: ConnectionCloseHandler, strategy?: ConnectionStrategy): IConnection {
 	let logger = new ConsoleLogger();
-	let connection = createProtocolConnection(input, output, logger);
+	let connection = createProtocolConnection(input, output, logger, strategy);
 	connection.onError((data) => { errorHandler(data[0], data[1], data[2]); });
 	connection.onClose(closeHandler);
 	let result: IConnection = {
@@ -170,14 +174,18 @@ function createConnection(input: any, output: any, errorHandler: ConnectionError
 		listen: (): void => connection.listen(),
 
 		sendRequest: <R>(type: string | RPCMessageType, ...params: any[]): Thenable<R> => connection.sendRequest(Is.string(type) ? type : type.method, ...params),
-		onRequest: <R, E>(type: string | RPCMessageType, handler: GenericRequestHandler<R, E>): void => connection.onRequest(Is.string(type) ? type : type.method, handler),
+		onRequest: <R, E>(type: string | RPCMessageType, handler: GenericRequestHandler<R, E>): Disposable => connection.onRequest(Is.string(type) ? type : type.method, handler),
 
 		sendNotification: (type: string | RPCMessageType, params?: any): void => connection.sendNotification(Is.string(type) ? type : type.method, params),
-		onNotification: (type: string | RPCMessageType, handler: GenericNotificationHandler): void => connection.onNotification(Is.string(type) ? type : type.method, handler),
+		onNotification: (type: string | RPCMessageType, handler: GenericNotificationHandler): Disposable => connection.onNotification(Is.string(type) ? type : type.method, handler),
 
 		onProgress: connection.onProgress,
 		sendProgress: connection.sendProgress,
 
+		addInterceptor: (interceptor: MessageInterceptor): Disposable => connection.addInterceptor(interceptor),
+
+		onUnresponsive: connection.onUnresponsive,
+
 		trace: (value: Trace, tracer: Tracer, sendNotificationOrTraceOptions?: boolean | TraceOptions): void => {
 			const defaultTraceOptions: TraceOptions = {
 				sendNotification: false,
@@ -265,6 +273,13 @@ export interface ErrorHandler {
 	 * The connection to the server got closed.
 	 */
 	closed(): CloseAction
+
+	/**
+	 * The server stopped answering heartbeats. The connection is treated
+	 * like a closed one using the returned action. If omitted `closed`
+	 * decides about the action.
+	 */
+	unresponsive?(): CloseAction;
 }
 
 class DefaultErrorHandler implements ErrorHandler {
@@ -492,6 +507,16 @@ export interface LanguageClientOptions {
 		protocol2Code: p2c.URIConverter
 	};
 	workspaceFolder?: VWorkspaceFolder;
+	/**
+	 * Interceptors added to every connection to the server in the given order.
+	 */
+	interceptors?: MessageInterceptor[];
+	/**
+	 * Enables heartbeats to detect a server which stopped responding. An
+	 * unresponsive server is handled by the error handler's `unresponsive`
+	 * method.
+	 */
+	heartbeat?: HeartbeatOptions;
 }
 
 interface ResolvedClientOptions {
@@ -510,7 +535,9 @@ interface ResolvedClientOptions {
 		code2Protocol: c2p.URIConverter,
 		protocol2Code: p2c.URIConverter
 	};
-	workspaceFolder?: VWorkspaceFolder
+	workspaceFolder?: VWorkspaceFolder;
+	interceptors: MessageInterceptor[];
+	heartbeat?: HeartbeatOptions;
 }
 
 export enum State {
@@ -2431,7 +2458,9 @@ export abstract class BaseLanguageClient {
 			errorHandler: clientOptions.errorHandler || new DefaultErrorHandler(this._name),
 			middleware: clientOptions.middleware || {},
 			uriConverters: clientOptions.uriConverters,
-			workspaceFolder: clientOptions.workspaceFolder
+			workspaceFolder: clientOptions.workspaceFolder,
+			interceptors: clientOptions.interceptors || [],
+			heartbeat: clientOptions.heartbeat
 		};
 		this._clientOptions.synchronize = this._clientOptions.synchronize || {};
 
@@ -2501,10 +2530,10 @@ export abstract class BaseLanguageClient {
 		return this._initializeResult;
 	}
 
-	public sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
-	public sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
-	public sendRequest<R>(method: string, token?: CancellationToken): Thenable<R>;
-	public sendRequest<R>(method: string, param: any, token?: CancellationToken): Thenable<R>;
+	public sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	public sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	public sendRequest<R>(method: string, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	public sendRequest<R>(method: string, param: any, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 	public sendRequest<R>(type: string | RPCMessageType, ...params: any[]): Thenable<R> {
 		if (!this.isConnectionActive()) {
 			throw new Error('Language client is not ready yet');
@@ -3048,12 +3077,27 @@ export abstract class BaseLanguageClient {
 			this.handleConnectionClosed();
 		};
 
+		let strategy: ConnectionStrategy | undefined = this._clientOptions.heartbeat ? { heartbeat: this._clientOptions.heartbeat } : undefined;
 		return this.createMessageTransports(this._clientOptions.stdioEncoding || 'utf8').then((transports) => {
-			return createConnection(transports.reader, transports.writer, errorHandler, closeHandler);
+			let connection = createConnection(transports.reader, transports.writer, errorHandler, closeHandler, strategy);
+			connection.onUnresponsive(() => this.handleConnectionUnresponsive());
+			for (let interceptor of this._clientOptions.interceptors) {
+				connection.addInterceptor(interceptor);
+			}
+			return connection;
 		});
 	}
 
 	protected handleConnectionClosed() {
+		this.handleConnectionLost('closed', () => this._clientOptions.errorHandler!.closed());
+	}
+
+	private handleConnectionUnresponsive() {
+		let errorHandler = this._clientOptions.errorHandler!;
+		this.handleConnectionLost('unresponsive', () => errorHandler.unresponsive ? errorHandler.unresponsive() : errorHandler.closed());
+	}
+
+	private handleConnectionLost(reason: string, closeAction: () => CloseAction) {
 		// Check whether this is a normal shutdown in progress or the client stopped normally.
 		if (this.state === ClientState.Stopping || this.state === ClientState.Stopped) {
 			return;
@@ -3067,18 +3111,18 @@ export abstract class BaseLanguageClient {
 		}
 		let action = CloseAction.DoNotRestart;
 		try {
-			action = this._clientOptions.errorHandler!.closed();
+			action = closeAction();
 		} catch (error) {
 			// Ignore errors coming from the error handler.
 		}
 		this._connectionPromise = undefined;
 		this._resolvedConnection = undefined;
 		if (action === CloseAction.DoNotRestart) {
-			this.error('Connection to server got closed. Server will not be restarted.');
+			this.error(`Connection to server got ${reason}. Server will not be restarted.`);
 			this.state = ClientState.Stopped;
 			this.cleanUp(false, true);
 		} else if (action === CloseAction.Restart) {
-			this.info('Connection to server got closed. Server will restart.');
+			this.info(`Connection to server got ${reason}. Server will restart.`);
 			this.cleanUp(false, false);
 			this.state = ClientState.Initial;
 			this.start();
@@ -19,7 +19,7 @@ import {
 
 import {
 	StreamMessageReader, StreamMessageWriter,
-	IPCMessageReader, IPCMessageWriter,
+	IPCMessageReader, IPCMessageWriter, MessagePortMessageReader, MessagePortMessageWriter,
 	createClientPipeTransport, generateRandomPipeName, createClientSocketTransport
 } from 'vscode-languageserver-protocol';
 
@@ -74,7 +74,8 @@ export enum TransportKind {
 	stdio,
 	ipc,
 	pipe,
-	socket
+	socket,
+	worker
 }
 
 export interface SocketTransport {
@@ -102,6 +103,18 @@ namespace Transport {
  */
 export type Transport = TransportKind | SocketTransport;
 
+/**
+ * The parts of a node `worker_threads` `Worker` used by the client. The
+ * module is loaded lazily since it is not available in all node versions.
+ */
+interface WorkerThread {
+	readonly stdout: NodeJS.ReadableStream;
+	readonly stderr: NodeJS.ReadableStream;
+	postMessage(value: any): void;
+	on(event: string, listener: (...args: any[]) => void): this;
+	terminate(): void;
+}
+
 export interface NodeModule {
 	module: string;
 	transport?: Transport;
@@ -148,6 +161,7 @@ export class LanguageClient extends BaseLanguageClient {
 	private _serverOptions: ServerOptions;
 	private _forceDebug: boolean;
 	private _serverProcess: ChildProcess | undefined;
+	private _serverWorker: WorkerThread | undefined;
 	private _isDetached: boolean | undefined;
 
 	public constructor(name: string, serverOptions: ServerOptions, clientOptions: LanguageClientOptions, forceDebug?: boolean);
@@ -209,6 +223,11 @@ export class LanguageClient extends BaseLanguageClient {
 				}
 				this._isDetached = undefined;
 			}
+			if (this._serverWorker) {
+				let toCheck = this._serverWorker;
+				this._serverWorker = undefined;
+				this.checkWorkerDied(toCheck);
+			}
 		});
 	}
 
@@ -227,8 +246,17 @@ export class LanguageClient extends BaseLanguageClient {
 		}, 2000);
 	}
 
+	private checkWorkerDied(worker: WorkerThread): void {
+		// The server exits its thread when receiving the exit notification.
+		// Terminating an already exited worker is a no-op.
+		setTimeout(() => {
+			worker.terminate();
+		}, 2000);
+	}
+
 	protected handleConnectionClosed() {
 		this._serverProcess = undefined;
+		this._serverWorker = undefined;
 		super.handleConnectionClosed();
 	}
 
@@ -309,6 +337,9 @@ export class LanguageClient extends BaseLanguageClient {
 					if (node.args) {
 						node.args.forEach(element => args.push(element));
 					}
+					if (transport === TransportKind.worker) {
+						return Promise.reject<MessageTransports>(new Error(`Transport kind worker can't be used together with runtime ${node.runtime}.`));
+					}
 					let execOptions: ExecutableOptions = Object.create(null);
 					execOptions.cwd = serverWorkingDir;
 					execOptions.env = getEnvironment(options.env, false);
@@ -368,12 +399,14 @@ export class LanguageClient extends BaseLanguageClient {
 					}
 				} else {
 					let pipeName: string | undefined = undefined;
-					return new Promise<MessageTransports>((resolve, _reject) => {
+					return new Promise<MessageTransports>((resolve, reject) => {
 						let args = node.args && node.args.slice() || [];
 						if (transport === TransportKind.ipc) {
 							args.push('--node-ipc');
 						} else if (transport === TransportKind.stdio) {
 							args.push('--stdio');
+						} else if (transport === TransportKind.worker) {
+							args.push('--worker');
 						} else if (transport === TransportKind.pipe) {
 							pipeName = generateRandomPipeName();
 							args.push(`--pipe=${pipeName}`);
@@ -416,6 +449,19 @@ export class LanguageClient extends BaseLanguageClient {
 									resolve({ reader: protocol[0], writer: protocol[1] });
 								});
 							});
+						} else if (transport === TransportKind.worker) {
+							let worker: WorkerThread;
+							try {
+								const workerThreads = require('worker_threads');
+								worker = new workerThreads.Worker(node.module, { argv: args, execArgv: options.execArgv, env: options.env, stdout: true, stderr: true });
+							} catch (error) {
+								reject(new Error(`Launching server ${node.module} in a worker thread failed: ${error.message}`));
+								return;
+							}
+							this._serverWorker = worker;
+							worker.stderr.on('data', data => this.outputChannel.append(Is.string(data) ? data : data.toString(encoding)));
+							worker.stdout.on('data', data => this.outputChannel.append(Is.string(data) ? data : data.toString(encoding)));
+							resolve({ reader: new MessagePortMessageReader(worker), writer: new MessagePortMessageWriter(worker) });
 						}
 					});
 				}
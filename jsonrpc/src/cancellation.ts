@@ -5,7 +5,7 @@
 
 'use strict';
 
-import { Event, Emitter } from './events';
+import { Event, Emitter, Disposable } from './events';
 import * as Is from './is';
 
 /**
@@ -25,6 +25,24 @@ export interface CancellationToken {
 	readonly onCancellationRequested: Event<any>;
 }
 
+/**
+ * The part of the `AbortSignal` interface used to interoperate with
+ * `AbortController` based APIs. Declared structurally since not every
+ * supported runtime provides the DOM types.
+ */
+export interface AbortSignalLike {
+	readonly aborted: boolean;
+	addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void;
+	removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export namespace AbortSignalLike {
+	export function is(value: any): value is AbortSignalLike {
+		let candidate = value as AbortSignalLike;
+		return candidate && Is.boolean(candidate.aborted) && Is.func(candidate.addEventListener) && Is.func(candidate.removeEventListener);
+	}
+}
+
 export namespace CancellationToken {
 
 	export const None: CancellationToken = Object.freeze({
@@ -43,6 +61,80 @@ export namespace CancellationToken {
 			|| candidate === CancellationToken.Cancelled
 			|| (Is.boolean(candidate.isCancellationRequested) && !!candidate.onCancellationRequested));
 	}
+
+	/**
+	 * Returns a signal which aborts when the token is cancelled. Uses
+	 * the runtime's `AbortController` if there is one.
+	 */
+	export function toAbortSignal(token: CancellationToken): AbortSignalLike {
+		let RuntimeAbortController = (global as NodeJS.Global & { AbortController?: AbortControllerConstructor }).AbortController;
+		let controller: AbortControllerLike = typeof RuntimeAbortController === 'function'
+			? new RuntimeAbortController()
+			: new SimpleAbortController();
+		if (token.isCancellationRequested) {
+			controller.abort();
+		} else {
+			let subscription: Disposable = token.onCancellationRequested(() => {
+				subscription.dispose();
+				controller.abort();
+			});
+		}
+		return controller.signal;
+	}
+
+	/**
+	 * Returns a token which is cancelled as soon as one of the given tokens
+	 * is cancelled. The subscriptions to the given tokens are released once
+	 * that happened. Use a [CombinedCancellationTokenSource](#CombinedCancellationTokenSource)
+	 * to release them earlier.
+	 */
+	export function any(tokens: CancellationToken[]): CancellationToken {
+		return new CombinedCancellationTokenSource(tokens).token;
+	}
+}
+
+interface AbortControllerLike {
+	readonly signal: AbortSignalLike;
+	abort(): void;
+}
+
+interface AbortControllerConstructor {
+	new (): AbortControllerLike;
+}
+
+class SimpleAbortSignal implements AbortSignalLike {
+
+	public aborted: boolean = false;
+	private listeners: (() => void)[] = [];
+
+	public addEventListener(_type: 'abort', listener: () => void): void {
+		this.listeners.push(listener);
+	}
+
+	public removeEventListener(_type: 'abort', listener: () => void): void {
+		let index = this.listeners.indexOf(listener);
+		if (index !== -1) {
+			this.listeners.splice(index, 1);
+		}
+	}
+
+	public abort(): void {
+		if (!this.aborted) {
+			this.aborted = true;
+			let listeners = this.listeners;
+			this.listeners = [];
+			listeners.forEach(listener => listener());
+		}
+	}
+}
+
+class SimpleAbortController implements AbortControllerLike {
+
+	public readonly signal: SimpleAbortSignal = new SimpleAbortSignal();
+
+	public abort(): void {
+		this.signal.abort();
+	}
 }
 
 const shortcutEvent: Event<any> = Object.freeze(function (callback: Function, context?: any): any {
@@ -121,4 +213,91 @@ export class CancellationTokenSource {
 			this._token.dispose();
 		}
 	}
+}
+
+/**
+ * A cancellation token source which cancels its token after the given
+ * number of milliseconds unless it got disposed before.
+ */
+export class TimeoutCancellationTokenSource extends CancellationTokenSource {
+
+	private _timer: NodeJS.Timer | undefined;
+
+	constructor(timeout: number) {
+		super();
+		this._timer = setTimeout(() => {
+			this._timer = undefined;
+			this.cancel();
+		}, timeout);
+	}
+
+	dispose(): void {
+		if (this._timer) {
+			clearTimeout(this._timer);
+			this._timer = undefined;
+		}
+		super.dispose();
+	}
+}
+
+/**
+ * A cancellation token source which cancels its token when the signal
+ * aborts. Disposing the source removes its listener from the signal.
+ */
+export class AbortSignalCancellationTokenSource extends CancellationTokenSource {
+
+	private _signal: AbortSignalLike | undefined;
+	private _listener: () => void;
+
+	constructor(signal: AbortSignalLike) {
+		super();
+		this._listener = () => this.cancel();
+		if (signal.aborted) {
+			this.cancel();
+		} else {
+			this._signal = signal;
+			signal.addEventListener('abort', this._listener, { once: true });
+		}
+	}
+
+	dispose(): void {
+		if (this._signal) {
+			this._signal.removeEventListener('abort', this._listener);
+			this._signal = undefined;
+		}
+		super.dispose();
+	}
+}
+
+/**
+ * A cancellation token source which cancels its token as soon as one of
+ * the given tokens is cancelled. Disposing the source unsubscribes from
+ * the given tokens.
+ */
+export class CombinedCancellationTokenSource extends CancellationTokenSource {
+
+	private _disposables: Disposable[];
+
+	constructor(tokens: CancellationToken[]) {
+		super();
+		this._disposables = [];
+		if (tokens.some(token => token.isCancellationRequested)) {
+			this.cancel();
+		} else {
+			this._disposables = tokens.map(token => token.onCancellationRequested(() => {
+				this.unsubscribe();
+				this.cancel();
+			}));
+		}
+	}
+
+	dispose(): void {
+		this.unsubscribe();
+		super.dispose();
+	}
+
+	private unsubscribe(): void {
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._disposables = [];
+	}
 }
\ No newline at end of file
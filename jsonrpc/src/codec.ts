@@ -0,0 +1,392 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Message, BatchMessage } from './messages';
+import * as Is from './is';
+
+/**
+ * Serializes messages to and from their wire format. The content type
+ * is sent using the `Content-Type` header and is used by readers to
+ * select the codec to decode a message.
+ */
+export interface MessageCodec {
+	/**
+	 * The mime type written to the `Content-Type` header (without parameters).
+	 */
+	readonly contentType: string;
+
+	encode(message: Message | BatchMessage, charset: string): Buffer;
+	decode(content: Buffer, charset: string): Message;
+}
+
+export namespace MessageCodecs {
+
+	/**
+	 * The default codec writing messages as JSON.
+	 */
+	export const json: MessageCodec = Object.freeze({
+		contentType: 'application/vscode-jsonrpc',
+		encode: (message: Message | BatchMessage, charset: string): Buffer => Buffer.from(JSON.stringify(message), charset),
+		decode: (content: Buffer, charset: string): Message => JSON.parse(content.toString(charset))
+	});
+
+	/**
+	 * A compact binary codec writing messages using the MessagePack format.
+	 * Values are encoded the same way `JSON.stringify` would treat them:
+	 * `undefined` and function valued properties are omitted and `toJSON`
+	 * methods are honored.
+	 */
+	export const msgpack: MessageCodec = Object.freeze({
+		contentType: 'application/msgpack',
+		encode: (message: Message | BatchMessage, _charset: string): Buffer => new MessagePackEncoder().encode(message),
+		decode: (content: Buffer, _charset: string): Message => new MessagePackDecoder(content).decode()
+	});
+
+	/**
+	 * Returns the mime type of a `Content-Type` header value.
+	 */
+	export function parseHeader(value: string): string {
+		return value.split(';')[0].trim().toLowerCase();
+	}
+}
+
+const Pow32 = 0x100000000;
+
+class MessagePackEncoder {
+
+	private buffer: Buffer;
+	private offset: number;
+
+	constructor() {
+		this.buffer = Buffer.allocUnsafe(1024);
+		this.offset = 0;
+	}
+
+	public encode(value: any): Buffer {
+		this.write(value);
+		return this.buffer.slice(0, this.offset);
+	}
+
+	private ensure(size: number): void {
+		if (this.offset + size <= this.buffer.length) {
+			return;
+		}
+		let newSize = this.buffer.length * 2;
+		while (newSize < this.offset + size) {
+			newSize *= 2;
+		}
+		let buffer = Buffer.allocUnsafe(newSize);
+		this.buffer.copy(buffer, 0, 0, this.offset);
+		this.buffer = buffer;
+	}
+
+	private writeByte(value: number): void {
+		this.ensure(1);
+		this.buffer[this.offset++] = value;
+	}
+
+	private writeHeader(type: number, size: number, value: number): void {
+		this.ensure(1 + size);
+		this.buffer[this.offset++] = type;
+		switch (size) {
+			case 1:
+				this.buffer.writeUInt8(value, this.offset);
+				break;
+			case 2:
+				this.buffer.writeUInt16BE(value, this.offset);
+				break;
+			case 4:
+				this.buffer.writeUInt32BE(value, this.offset);
+				break;
+		}
+		this.offset += size;
+	}
+
+	private write(value: any): void {
+		if (value === null || value === undefined) {
+			this.writeByte(0xc0);
+		} else if (value === false) {
+			this.writeByte(0xc2);
+		} else if (value === true) {
+			this.writeByte(0xc3);
+		} else if (Is.number(value)) {
+			this.writeNumber(Number(value));
+		} else if (Is.string(value)) {
+			this.writeString(String(value));
+		} else if (Is.array(value)) {
+			this.writeArray(value);
+		} else if (typeof value === 'object') {
+			if (Is.func(value.toJSON)) {
+				this.write(value.toJSON());
+			} else {
+				this.writeObject(value);
+			}
+		} else {
+			// Functions and symbols are written as null. This is what JSON.stringify does inside arrays.
+			this.writeByte(0xc0);
+		}
+	}
+
+	private writeNumber(value: number): void {
+		if (!isFinite(value)) {
+			// JSON has no representation for NaN and Infinity either.
+			this.writeByte(0xc0);
+		} else if (Number.isSafeInteger(value)) {
+			if (value >= 0) {
+				if (value < 0x80) {
+					this.writeByte(value);
+				} else if (value <= 0xff) {
+					this.writeHeader(0xcc, 1, value);
+				} else if (value <= 0xffff) {
+					this.writeHeader(0xcd, 2, value);
+				} else if (value <= 0xffffffff) {
+					this.writeHeader(0xce, 4, value);
+				} else {
+					this.writeHeader(0xcf, 4, Math.floor(value / Pow32));
+					this.ensure(4);
+					this.buffer.writeUInt32BE(value % Pow32, this.offset);
+					this.offset += 4;
+				}
+			} else {
+				if (value >= -32) {
+					this.writeByte(value & 0xff);
+				} else if (value >= -0x80) {
+					this.ensure(2);
+					this.buffer[this.offset++] = 0xd0;
+					this.buffer.writeInt8(value, this.offset++);
+				} else if (value >= -0x8000) {
+					this.ensure(3);
+					this.buffer[this.offset++] = 0xd1;
+					this.buffer.writeInt16BE(value, this.offset);
+					this.offset += 2;
+				} else if (value >= -0x80000000) {
+					this.ensure(5);
+					this.buffer[this.offset++] = 0xd2;
+					this.buffer.writeInt32BE(value, this.offset);
+					this.offset += 4;
+				} else {
+					let high = Math.floor(value / Pow32);
+					this.ensure(9);
+					this.buffer[this.offset++] = 0xd3;
+					this.buffer.writeInt32BE(high, this.offset);
+					this.buffer.writeUInt32BE(value - high * Pow32, this.offset + 4);
+					this.offset += 8;
+				}
+			}
+		} else {
+			this.ensure(9);
+			this.buffer[this.offset++] = 0xcb;
+			this.buffer.writeDoubleBE(value, this.offset);
+			this.offset += 8;
+		}
+	}
+
+	private writeString(value: string): void {
+		let length = Buffer.byteLength(value, 'utf8');
+		if (length < 32) {
+			this.writeByte(0xa0 | length);
+		} else if (length <= 0xff) {
+			this.writeHeader(0xd9, 1, length);
+		} else if (length <= 0xffff) {
+			this.writeHeader(0xda, 2, length);
+		} else {
+			this.writeHeader(0xdb, 4, length);
+		}
+		this.ensure(length);
+		this.buffer.write(value, this.offset, length, 'utf8');
+		this.offset += length;
+	}
+
+	private writeArray(value: any[]): void {
+		let length = value.length;
+		if (length < 16) {
+			this.writeByte(0x90 | length);
+		} else if (length <= 0xffff) {
+			this.writeHeader(0xdc, 2, length);
+		} else {
+			this.writeHeader(0xdd, 4, length);
+		}
+		for (let item of value) {
+			this.write(item);
+		}
+	}
+
+	private writeObject(value: any): void {
+		let keys = Object.keys(value).filter((key) => {
+			let item = value[key];
+			return item !== undefined && !Is.func(item) && typeof item !== 'symbol';
+		});
+		let length = keys.length;
+		if (length < 16) {
+			this.writeByte(0x80 | length);
+		} else if (length <= 0xffff) {
+			this.writeHeader(0xde, 2, length);
+		} else {
+			this.writeHeader(0xdf, 4, length);
+		}
+		for (let key of keys) {
+			this.writeString(key);
+			this.write(value[key]);
+		}
+	}
+}
+
+class MessagePackDecoder {
+
+	private offset: number;
+
+	constructor(private buffer: Buffer) {
+		this.offset = 0;
+	}
+
+	public decode(): any {
+		let result = this.read();
+		if (this.offset !== this.buffer.length) {
+			throw new Error(`Unexpected data after MessagePack value at offset ${this.offset}.`);
+		}
+		return result;
+	}
+
+	private ensure(size: number): void {
+		if (this.offset + size > this.buffer.length) {
+			throw new Error('Unexpected end of MessagePack data.');
+		}
+	}
+
+	private readUInt(size: number): number {
+		this.ensure(size);
+		let result: number;
+		switch (size) {
+			case 1:
+				result = this.buffer.readUInt8(this.offset);
+				break;
+			case 2:
+				result = this.buffer.readUInt16BE(this.offset);
+				break;
+			default:
+				result = this.buffer.readUInt32BE(this.offset);
+				break;
+		}
+		this.offset += size;
+		return result;
+	}
+
+	private read(): any {
+		this.ensure(1);
+		let type = this.buffer[this.offset++];
+		if (type < 0x80) {
+			return type;
+		} else if (type < 0x90) {
+			return this.readMap(type & 0x0f);
+		} else if (type < 0xa0) {
+			return this.readArray(type & 0x0f);
+		} else if (type < 0xc0) {
+			return this.readString(type & 0x1f);
+		} else if (type >= 0xe0) {
+			return type - 0x100;
+		}
+		let result: any;
+		switch (type) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+			case 0xc5:
+			case 0xc6:
+				let length = this.readUInt(1 << (type - 0xc4));
+				this.ensure(length);
+				result = Buffer.from(this.buffer.slice(this.offset, this.offset + length));
+				this.offset += length;
+				return result;
+			case 0xca:
+				this.ensure(4);
+				result = this.buffer.readFloatBE(this.offset);
+				this.offset += 4;
+				return result;
+			case 0xcb:
+				this.ensure(8);
+				result = this.buffer.readDoubleBE(this.offset);
+				this.offset += 8;
+				return result;
+			case 0xcc:
+				return this.readUInt(1);
+			case 0xcd:
+				return this.readUInt(2);
+			case 0xce:
+				return this.readUInt(4);
+			case 0xcf:
+				this.ensure(8);
+				result = this.buffer.readUInt32BE(this.offset) * Pow32 + this.buffer.readUInt32BE(this.offset + 4);
+				this.offset += 8;
+				return result;
+			case 0xd0:
+				this.ensure(1);
+				return this.buffer.readInt8(this.offset++);
+			case 0xd1:
+				this.ensure(2);
+				result = this.buffer.readInt16BE(this.offset);
+				this.offset += 2;
+				return result;
+			case 0xd2:
+				this.ensure(4);
+				result = this.buffer.readInt32BE(this.offset);
+				this.offset += 4;
+				return result;
+			case 0xd3:
+				this.ensure(8);
+				result = this.buffer.readInt32BE(this.offset) * Pow32 + this.buffer.readUInt32BE(this.offset + 4);
+				this.offset += 8;
+				return result;
+			case 0xd9:
+				return this.readString(this.readUInt(1));
+			case 0xda:
+				return this.readString(this.readUInt(2));
+			case 0xdb:
+				return this.readString(this.readUInt(4));
+			case 0xdc:
+				return this.readArray(this.readUInt(2));
+			case 0xdd:
+				return this.readArray(this.readUInt(4));
+			case 0xde:
+				return this.readMap(this.readUInt(2));
+			case 0xdf:
+				return this.readMap(this.readUInt(4));
+			default:
+				throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}.`);
+		}
+	}
+
+	private readString(length: number): string {
+		this.ensure(length);
+		let result = this.buffer.toString('utf8', this.offset, this.offset + length);
+		this.offset += length;
+		return result;
+	}
+
+	private readArray(length: number): any[] {
+		let result: any[] = new Array(length);
+		for (let i = 0; i < length; i++) {
+			result[i] = this.read();
+		}
+		return result;
+	}
+
+	private readMap(length: number): any {
+		let result: any = {};
+		for (let i = 0; i < length; i++) {
+			let key = this.read();
+			if (!Is.string(key)) {
+				throw new Error('MessagePack map keys must be strings.');
+			}
+			// Define the property to avoid that a `__proto__` key changes the prototype.
+			Object.defineProperty(result, key, { value: this.read(), writable: true, enumerable: true, configurable: true });
+		}
+		return result;
+	}
+}
@@ -0,0 +1,63 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as zlib from 'zlib';
+
+/**
+ * Encodes a message body before it is written. The name is used as the
+ * value of the `Content-Encoding` header.
+ */
+export interface ContentEncoder {
+	readonly name: string;
+	encode(input: Buffer): Buffer;
+}
+
+/**
+ * Decodes a message body which got written using the `Content-Encoding`
+ * equal to the decoder's name. A decoder should throw instead of producing
+ * more than `maxLength` bytes if a maximal length is given.
+ */
+export interface ContentDecoder {
+	readonly name: string;
+	decode(input: Buffer, maxLength?: number): Buffer;
+}
+
+// `maxOutputLength` is missing in the typings of older Node versions.
+interface DecodeOptions extends zlib.ZlibOptions {
+	maxOutputLength?: number;
+}
+
+function decodeOptions(maxLength: number | undefined): DecodeOptions {
+	return maxLength !== void 0 ? { maxOutputLength: Math.max(maxLength, 1) } : {};
+}
+
+export namespace ContentEncodings {
+
+	export const gzip: ContentEncoder & ContentDecoder = Object.freeze({
+		name: 'gzip',
+		encode: (input: Buffer): Buffer => zlib.gzipSync(input),
+		decode: (input: Buffer, maxLength?: number): Buffer => zlib.gunzipSync(input, decodeOptions(maxLength))
+	});
+
+	export const deflate: ContentEncoder & ContentDecoder = Object.freeze({
+		name: 'deflate',
+		encode: (input: Buffer): Buffer => zlib.deflateSync(input),
+		decode: (input: Buffer, maxLength?: number): Buffer => zlib.inflateSync(input, decodeOptions(maxLength))
+	});
+
+	/**
+	 * The encodings supported out of the box in order of preference.
+	 */
+	export const all: (ContentEncoder & ContentDecoder)[] = [gzip, deflate];
+
+	/**
+	 * Parses the value of an `Accept-Encoding` header. Quality values are
+	 * ignored. The order of the encodings is preserved.
+	 */
+	export function parseHeader(value: string): string[] {
+		return value.split(',').map(name => name.split(';')[0].trim()).filter(name => name.length > 0);
+	}
+}
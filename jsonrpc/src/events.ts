@@ -2,6 +2,7 @@
  * Copyright (c) Microsoft Corporation. All rights reserved.
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
+/// <reference lib="es2018.asynciterable" />
 'use strict';
 
 export interface Disposable {
@@ -37,6 +38,151 @@ export interface Event<T> {
 export namespace Event {
 	const _disposable = { dispose() { } };
 	export const None: Event<any> = function () { return _disposable; };
+
+	/**
+	 * Returns a promise resolving to the next value fired by the event.
+	 */
+	export function once<T>(event: Event<T>): Promise<T> {
+		return new Promise<T>((resolve) => {
+			let subscription = event((value) => {
+				subscription.dispose();
+				resolve(value);
+			});
+		});
+	}
+
+	/**
+	 * Returns an event which only fires the values matching the predicate.
+	 */
+	export function filter<T>(event: Event<T>, predicate: (value: T) => boolean): Event<T> {
+		return (listener: (e: T) => any, thisArgs?: any, disposables?: Disposable[]) => {
+			return event((value) => predicate(value) && listener.call(thisArgs, value), null, disposables);
+		};
+	}
+
+	/**
+	 * Returns an event which fires the values mapped by the given function.
+	 */
+	export function map<T, U>(event: Event<T>, mapper: (value: T) => U): Event<U> {
+		return (listener: (e: U) => any, thisArgs?: any, disposables?: Disposable[]) => {
+			return event((value) => listener.call(thisArgs, mapper(value)), null, disposables);
+		};
+	}
+
+	/**
+	 * Returns an event which fires the last value once the given event
+	 * didn't fire for `delay` milliseconds.
+	 */
+	export function debounce<T>(event: Event<T>, delay: number): Event<T> {
+		return (listener: (e: T) => any, thisArgs?: any, disposables?: Disposable[]) => {
+			let timer: NodeJS.Timer | undefined;
+			let subscription = event((value) => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+				timer = setTimeout(() => {
+					timer = undefined;
+					listener.call(thisArgs, value);
+				}, delay);
+			});
+			let result = Disposable.create(() => {
+				if (timer) {
+					clearTimeout(timer);
+					timer = undefined;
+				}
+				subscription.dispose();
+			});
+			if (Array.isArray(disposables)) {
+				disposables.push(result);
+			}
+			return result;
+		};
+	}
+
+	/**
+	 * Returns an async iterator yielding the values fired by the event. The
+	 * event is subscribed immediately and values are buffered until they
+	 * are consumed. The iteration ends when `until` fires or when the
+	 * consumer stops iterating.
+	 */
+	export function toAsyncIterable<T>(event: Event<T>, until?: Event<any>): EventIterator<T> {
+		return new BufferedEventIterator(event, until);
+	}
+}
+
+/**
+ * An async iterable iterator over the values fired by an event which can be
+ * consumed using `for await`. Declared here instead of using the lib's
+ * `AsyncIterableIterator` whose shape differs between TypeScript versions.
+ * The lib's `Symbol.asyncIterator` declaration is referenced above so that
+ * users of the library don't need to add the lib themselves. On runtimes
+ * without `Symbol.asyncIterator`, like Node 8, use `next` directly.
+ */
+export interface EventIterator<T> {
+	next(): Promise<IteratorResult<T>>;
+	return(): Promise<IteratorResult<T>>;
+	[Symbol.asyncIterator](): EventIterator<T>;
+}
+
+const DoneResult: IteratorResult<any> = { value: undefined, done: true };
+
+class BufferedEventIterator<T> implements EventIterator<T> {
+
+	private values: T[];
+	private waiting: ((result: IteratorResult<T>) => void)[];
+	private done: boolean;
+	private disposables: Disposable[];
+
+	constructor(event: Event<T>, until?: Event<any>) {
+		this.values = [];
+		this.waiting = [];
+		this.done = false;
+		this.disposables = [event(value => this.push(value))];
+		if (until) {
+			this.disposables.push(until(() => this.end()));
+		}
+	}
+
+	public next(): Promise<IteratorResult<T>> {
+		if (this.values.length > 0) {
+			return Promise.resolve({ value: this.values.shift()!, done: false });
+		}
+		if (this.done) {
+			return Promise.resolve(DoneResult);
+		}
+		return new Promise<IteratorResult<T>>(resolve => this.waiting.push(resolve));
+	}
+
+	public return(): Promise<IteratorResult<T>> {
+		this.end();
+		this.values = [];
+		return Promise.resolve(DoneResult);
+	}
+
+	public [Symbol.asyncIterator](): EventIterator<T> {
+		return this;
+	}
+
+	private push(value: T): void {
+		let resolve = this.waiting.shift();
+		if (resolve) {
+			resolve({ value, done: false });
+		} else {
+			this.values.push(value);
+		}
+	}
+
+	private end(): void {
+		if (this.done) {
+			return;
+		}
+		this.done = true;
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+		let waiting = this.waiting;
+		this.waiting = [];
+		waiting.forEach(resolve => resolve(DoneResult));
+	}
 }
 
 class CallbackList {
@@ -144,9 +290,13 @@ export class Emitter<T> {
 				let result: Disposable;
 				result = {
 					dispose: () => {
-						this._callbacks!.remove(listener, thisArgs);
 						result.dispose = Emitter._noop;
-						if (this._options && this._options.onLastListenerRemove && this._callbacks!.isEmpty()) {
+						// The emitter might be disposed already.
+						if (!this._callbacks) {
+							return;
+						}
+						this._callbacks.remove(listener, thisArgs);
+						if (this._options && this._options.onLastListenerRemove && this._callbacks.isEmpty()) {
 							this._options.onLastListenerRemove(this);
 						}
 					}
@@ -0,0 +1,139 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CancellationToken, CancellationTokenSource } from './cancellation';
+import { Event } from './events';
+import {
+	MessageConnection, CancellationStrategy, CancellationReceiverStrategy, CancellationSenderStrategy, AbstractCancellationTokenSource
+} from './main';
+
+function getCancellationFile(folder: string, id: number | string): string {
+	return path.join(folder, `cancellation-${String(id)}.tmp`);
+}
+
+class FileCancellationToken implements CancellationToken {
+
+	public constructor(private file: string, private source: CancellationTokenSource) {
+	}
+
+	public get isCancellationRequested(): boolean {
+		let token = this.source.token;
+		if (!token.isCancellationRequested && fs.existsSync(this.file)) {
+			this.source.cancel();
+		}
+		return token.isCancellationRequested;
+	}
+
+	public get onCancellationRequested(): Event<any> {
+		return this.source.token.onCancellationRequested;
+	}
+}
+
+class FileCancellationTokenSource implements AbstractCancellationTokenSource {
+
+	private source: CancellationTokenSource;
+	private _token: CancellationToken | undefined;
+
+	public constructor(private file: string) {
+		this.source = new CancellationTokenSource();
+	}
+
+	public get token(): CancellationToken {
+		if (!this._token) {
+			this._token = new FileCancellationToken(this.file, this.source);
+		}
+		return this._token;
+	}
+
+	public cancel(): void {
+		this.source.cancel();
+	}
+
+	public dispose(): void {
+		this.source.dispose();
+	}
+}
+
+class FileCancellationReceiverStrategy implements CancellationReceiverStrategy {
+
+	public constructor(private folder: string) {
+	}
+
+	public createCancellationTokenSource(id: number | string): AbstractCancellationTokenSource {
+		return new FileCancellationTokenSource(getCancellationFile(this.folder, id));
+	}
+}
+
+class FileCancellationSenderStrategy implements CancellationSenderStrategy {
+
+	// The ids of the requests with a cancellation file.
+	private cancelled: Set<string>;
+
+	public constructor(private folder: string) {
+		this.cancelled = new Set();
+	}
+
+	public sendCancellation(connection: MessageConnection, id: number | string): void {
+		let key = String(id);
+		if (!this.cancelled.has(key)) {
+			try {
+				if (!fs.existsSync(this.folder)) {
+					fs.mkdirSync(this.folder);
+				}
+				fs.writeFileSync(getCancellationFile(this.folder, id), '');
+				this.cancelled.add(key);
+			} catch (error) {
+				// Fall back to the notification only.
+			}
+		}
+		// Still notify handlers waiting for the cancellation event.
+		connection.sendNotification('$/cancelRequest', { id });
+	}
+
+	public cleanup(id: number | string): void {
+		let key = String(id);
+		if (this.cancelled.delete(key)) {
+			this.remove(key);
+		}
+	}
+
+	public dispose(): void {
+		this.cancelled.forEach(key => this.remove(key));
+		this.cancelled.clear();
+	}
+
+	private remove(id: string): void {
+		try {
+			fs.unlinkSync(getCancellationFile(this.folder, id));
+		} catch (error) {
+			// The file is already gone.
+		}
+	}
+}
+
+/**
+ * Cancels requests by writing a marker file per request id into a folder
+ * shared by both processes. The receiving side checks for the file
+ * synchronously when `isCancellationRequested` is read, so a request
+ * handler notices the cancellation even if it never yields to the event
+ * loop. The `$/cancelRequest` notification is sent as well.
+ *
+ * Use a separate folder per connection since request ids are only unique
+ * per connection.
+ */
+export class FileCancellationStrategy implements CancellationStrategy {
+
+	public readonly receiver: CancellationReceiverStrategy;
+	public readonly sender: CancellationSenderStrategy;
+
+	public constructor(public readonly folder: string) {
+		this.receiver = new FileCancellationReceiverStrategy(folder);
+		this.sender = new FileCancellationSenderStrategy(folder);
+	}
+}
@@ -112,6 +112,10 @@ export class LinkedMap<K, V> {
 		return item.value;
 	}
 
+	public get first(): V | undefined {
+		return this._head ? this._head.value : undefined;
+	}
+
 	public forEach(callbackfn: (value: V, key: K, map: LinkedMap<K, V>) => void, thisArg?: any): void {
 		let current = this._head;
 		while(current) {
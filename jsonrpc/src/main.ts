@@ -8,7 +8,7 @@
 import * as Is from './is';
 
 import {
-	Message, MessageType,
+	Message, BatchMessage, MessageType, ParamsValidator, ParameterStructures,
 	RequestMessage, RequestType, isRequestMessage,
 	RequestType0, RequestType1, RequestType2, RequestType3, RequestType4,
 	RequestType5, RequestType6, RequestType7, RequestType8, RequestType9,
@@ -20,27 +20,46 @@ import {
 	_EM
 } from './messages';
 
-import { MessageReader, DataCallback, StreamMessageReader, IPCMessageReader, SocketMessageReader } from './messageReader';
-import { MessageWriter, StreamMessageWriter, IPCMessageWriter, SocketMessageWriter } from './messageWriter';
-import { Disposable, Event, Emitter } from './events';
-import { CancellationTokenSource, CancellationToken } from './cancellation';
+import { MessageReader, MessageReaderOptions, DataCallback, StreamMessageReader, IPCMessageReader, SocketMessageReader, MessagePortLike, MessagePortMessageReader } from './messageReader';
+import { MessageWriter, MessageWriterOptions, StreamMessageWriter, IPCMessageWriter, SocketMessageWriter, MessagePortMessageWriter } from './messageWriter';
+import { ContentEncoder, ContentDecoder, ContentEncodings } from './encoding';
+import { MessageCodec, MessageCodecs } from './codec';
+import { Disposable, Event, Emitter, EventIterator } from './events';
+import {
+	CancellationTokenSource, CancellationToken, AbortSignalLike, TimeoutCancellationTokenSource, AbortSignalCancellationTokenSource, CombinedCancellationTokenSource
+} from './cancellation';
 import { LinkedMap } from './linkedMap';
+import { ConnectionStatistics, MethodStatistics, LatencyHistogram, MethodStatisticsCollector } from './statistics';
+import { createMemoryTransports, MemoryTransportOptions } from './memorySupport';
+import { TransportListener } from './transportListener';
+import { SessionRecorder, readSession, replaySession, ReplayOptions, ReplayResult, ResponseDifference } from './recording';
 
 export {
-	Message, MessageType, ErrorCodes, ResponseError,
+	Message, BatchMessage, MessageType, ParamsValidator, ParameterStructures, ErrorCodes, ResponseError,
 	RequestMessage, RequestType,
 	RequestType0, RequestType1, RequestType2, RequestType3, RequestType4,
 	RequestType5, RequestType6, RequestType7, RequestType8, RequestType9,
 	NotificationMessage, NotificationType,
 	NotificationType0, NotificationType1, NotificationType2, NotificationType3, NotificationType4,
 	NotificationType5, NotificationType6, NotificationType7, NotificationType8, NotificationType9,
-	MessageReader, DataCallback, StreamMessageReader, IPCMessageReader, SocketMessageReader,
-	MessageWriter, StreamMessageWriter, IPCMessageWriter, SocketMessageWriter,
-	CancellationTokenSource, CancellationToken,
-	Disposable, Event, Emitter
+	MessageReader, MessageReaderOptions, DataCallback, StreamMessageReader, IPCMessageReader, SocketMessageReader, MessagePortLike, MessagePortMessageReader,
+	MessageWriter, MessageWriterOptions, StreamMessageWriter, IPCMessageWriter, SocketMessageWriter, MessagePortMessageWriter,
+	ContentEncoder, ContentDecoder, ContentEncodings,
+	MessageCodec, MessageCodecs,
+	SessionRecorder, readSession, replaySession, ReplayOptions, ReplayResult, ResponseDifference,
+	ConnectionStatistics, MethodStatistics, LatencyHistogram,
+	CancellationTokenSource, CancellationToken, AbortSignalLike, TimeoutCancellationTokenSource, AbortSignalCancellationTokenSource, CombinedCancellationTokenSource,
+	Disposable, Event, Emitter, EventIterator
 };
 export * from './pipeSupport';
 export * from './socketSupport';
+export * from './resumableSocketSupport';
+export * from './rpcInterface';
+export * from './multiplexer';
+export * from './fileCancellation';
+export * from './memorySupport';
+export * from './transportListener';
+export * from './websocketSupport';
 
 interface CancelParams {
 	/**
@@ -53,6 +72,14 @@ namespace CancelNotification {
 	export const type = new NotificationType<CancelParams, void>('$/cancelRequest');
 }
 
+namespace PingNotification {
+	export const type = new NotificationType0<void>('$/ping');
+}
+
+namespace PongNotification {
+	export const type = new NotificationType0<void>('$/pong');
+}
+
 export type ProgressToken = number | string;
 interface ProgressParams<T> {
 	/**
@@ -301,44 +328,283 @@ export class ConnectionError extends Error {
 
 export type MessageQueue = LinkedMap<string, Message>;
 
+interface PriorityMessageQueue {
+	priority: number;
+	queue: MessageQueue;
+	/**
+	 * The key of the message added last.
+	 */
+	lastKey: string | undefined;
+}
+
+export interface HeartbeatOptions {
+	/**
+	 * The interval in milliseconds in which a `$/ping` notification is sent.
+	 * The other side answers it with a `$/pong` notification.
+	 */
+	interval: number;
+
+	/**
+	 * The number of consecutive intervals without receiving any message
+	 * after which `onUnresponsive` fires. Defaults to 3. Intervals are only
+	 * counted once the other side answered a `$/ping` so that a peer not
+	 * implementing the heartbeat is never considered unresponsive.
+	 */
+	misses?: number;
+}
+
+/**
+ * A cancellation token source created by a
+ * [CancellationReceiverStrategy](#CancellationReceiverStrategy).
+ */
+export interface AbstractCancellationTokenSource extends Disposable {
+	readonly token: CancellationToken;
+	cancel(): void;
+}
+
+/**
+ * Creates the cancellation token source passed to a request handler.
+ */
+export interface CancellationReceiverStrategy {
+	createCancellationTokenSource(id: number | string): AbstractCancellationTokenSource;
+	dispose?(): void;
+}
+
+export namespace CancellationReceiverStrategy {
+	export const Message: CancellationReceiverStrategy = Object.freeze({
+		createCancellationTokenSource(_: number | string): AbstractCancellationTokenSource {
+			return new CancellationTokenSource();
+		}
+	});
+}
+
+/**
+ * Signals the cancellation of a sent request to the other side.
+ */
+export interface CancellationSenderStrategy {
+	sendCancellation(connection: MessageConnection, id: number | string): void;
+
+	/**
+	 * Called when the response of a request arrived.
+	 */
+	cleanup(id: number | string): void;
+	dispose?(): void;
+}
+
+export namespace CancellationSenderStrategy {
+	export const Message: CancellationSenderStrategy = Object.freeze({
+		sendCancellation(connection: MessageConnection, id: number | string): void {
+			connection.sendNotification(CancelNotification.type, { id });
+		},
+		cleanup(_: number | string): void {}
+	});
+}
+
+/**
+ * Defines how request cancellation is transported between the two sides of
+ * a connection. Both sides need to use compatible strategies.
+ */
+export interface CancellationStrategy {
+	receiver: CancellationReceiverStrategy;
+	sender: CancellationSenderStrategy;
+}
+
+export namespace CancellationStrategy {
+	/**
+	 * Cancels requests using the `$/cancelRequest` notification.
+	 */
+	export const Message: CancellationStrategy = Object.freeze({
+		receiver: CancellationReceiverStrategy.Message,
+		sender: CancellationSenderStrategy.Message
+	});
+
+	export function is(value: any): value is CancellationStrategy {
+		let candidate: CancellationStrategy = value;
+		return candidate && candidate.receiver !== void 0 && Is.func(candidate.receiver.createCancellationTokenSource) &&
+			candidate.sender !== void 0 && Is.func(candidate.sender.sendCancellation) && Is.func(candidate.sender.cleanup);
+	}
+}
+
+/**
+ * Declares how the handler of a method is ordered relative to other handlers.
+ * A `write` waits until all running handlers finished and the messages received
+ * after it wait until it finished. A `read` runs concurrently to other reads.
+ * An `independent` method is dispatched without waiting for other handlers.
+ */
+export type MethodKind = 'read' | 'write' | 'independent';
+
 export type ConnectionStrategy = {
 	cancelUndispatched?: (message: Message, next: (message: Message) => ResponseMessage | undefined) => ResponseMessage | undefined;
+
+	/**
+	 * The default time in milliseconds to wait for the response of a request.
+	 * If no response arrives in time the request is cancelled and its promise
+	 * is rejected with a `ResponseError` using the code `ErrorCodes.RequestTimeout`.
+	 * Can be overridden per request using [RequestOptions](#RequestOptions).
+	 * If omitted requests never time out.
+	 */
+	requestTimeout?: number;
+
+	/**
+	 * The codec used to serialize messages if the connection is created
+	 * from streams. The reader additionally accepts JSON encoded messages.
+	 * Defaults to JSON.
+	 */
+	messageCodec?: MessageCodec;
+
+	/**
+	 * Assigns a priority to a received message. Messages with a higher
+	 * priority are dispatched before messages with a lower priority.
+	 * Messages with the same priority are dispatched in the order they
+	 * got received. If omitted all messages have the priority `0`.
+	 */
+	messagePriority?: (message: Message) => number;
+
+	/**
+	 * Called when a notification is queued directly behind another
+	 * notification of the same priority which hasn't been dispatched yet.
+	 * Returning `true` drops the queued notification since it got
+	 * superseded by the new one.
+	 */
+	coalesceNotifications?: (queued: NotificationMessage, next: NotificationMessage) => boolean;
+
+	/**
+	 * The interval in milliseconds in which `onStatistics` fires while it
+	 * has listeners. Defaults to 60 seconds.
+	 */
+	statisticsInterval?: number;
+
+	/**
+	 * Enables periodically exchanging heartbeat notifications to detect
+	 * a peer which stopped responding without closing the connection.
+	 */
+	heartbeat?: HeartbeatOptions;
+
+	/**
+	 * The strategy used to signal and detect request cancellation.
+	 * Defaults to [CancellationStrategy.Message](#CancellationStrategy.Message).
+	 */
+	cancellationStrategy?: CancellationStrategy;
+
+	/**
+	 * Enables concurrent dispatch. Returns the kind of a received request or
+	 * notification. Methods without a kind are `independent`. Messages are
+	 * still dispatched in the order they got received, but a read or write
+	 * waits until the handlers it is ordered after finished asynchronously.
+	 * So a read sees the state produced by the writes received before it and
+	 * no write received after it. Responses, cancellations and independent
+	 * methods never wait.
+	 */
+	methodKind?: (method: string) => MethodKind | undefined;
+
+	/**
+	 * The maximal number of reads running concurrently if `methodKind`
+	 * is set. Defaults to 4.
+	 */
+	maxConcurrentReads?: number;
 };
 
 export namespace ConnectionStrategy {
 	export function is(value: any): value is ConnectionStrategy {
 		let candidate: ConnectionStrategy = value;
-		return candidate && Is.func(candidate.cancelUndispatched);
+		return candidate && (Is.func(candidate.cancelUndispatched) || Is.number(candidate.requestTimeout) ||
+			Is.func(candidate.messagePriority) || Is.func(candidate.coalesceNotifications) || Is.number(candidate.statisticsInterval) ||
+			(candidate.heartbeat !== void 0 && Is.number(candidate.heartbeat.interval)) ||
+			(candidate.messageCodec !== void 0 && Is.func(candidate.messageCodec.encode) && Is.func(candidate.messageCodec.decode)) ||
+			CancellationStrategy.is(candidate.cancellationStrategy) || Is.func(candidate.methodKind));
+	}
+}
+
+/**
+ * Intercepts the messages flowing through a connection. An interceptor can
+ * observe a message, rewrite it by passing another message to `next`, delay
+ * it by calling `next` later or drop it by not calling `next` at all.
+ * Requests of a received batch and their responses which aren't passed on
+ * synchronously are left out of the batch's response. Their responses are
+ * written on their own if at all.
+ *
+ * `reply` sends a message in the opposite direction without passing the
+ * other interceptors. This allows an interceptor to answer a request
+ * itself, for example from a cache.
+ */
+export interface MessageInterceptor {
+	/**
+	 * Intercepts a message received from the other side before it is dispatched.
+	 */
+	incoming?(message: Message, next: (message: Message) => void, reply: (message: Message) => void): void;
+
+	/**
+	 * Intercepts a message before it is written to the other side.
+	 */
+	outgoing?(message: Message, next: (message: Message) => void, reply: (message: Message) => void): void;
+}
+
+/**
+ * Options that can be passed to `sendRequest` in place of a cancellation token.
+ * Options must be created using `new RequestOptions(...)` so that they can't
+ * be mistaken for request parameters. Object literals are always sent as
+ * parameters.
+ */
+export class RequestOptions {
+	/**
+	 * An optional cancellation token or abort signal.
+	 */
+	public readonly token?: CancellationToken | AbortSignalLike;
+
+	/**
+	 * The time in milliseconds to wait for the response. Overrides the
+	 * connection's default `requestTimeout`. A value of `0` disables the
+	 * timeout for this request.
+	 */
+	public readonly timeout?: number;
+
+	public constructor(options: { token?: CancellationToken | AbortSignalLike; timeout?: number; }) {
+		this.token = options.token;
+		this.timeout = options.timeout;
+	}
+
+	public static is(value: any): value is RequestOptions {
+		return value instanceof RequestOptions;
 	}
 }
 
 export interface MessageConnection {
-	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
-	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, R, E, RO>(type: RequestType1<P1, R, E, RO>, p1: P1, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, R, E, RO>(type: RequestType2<P1, P2, R, E, RO>, p1: P1, p2: P2, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, R, E, RO>(type: RequestType3<P1, P2, P3, R, E, RO>, p1: P1, p2: P2, p3: P3, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, R, E, RO>(type: RequestType4<P1, P2, P3, P4, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, P5, R, E, RO>(type: RequestType5<P1, P2, P3, P4, P5, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, P5, P6, R, E, RO>(type: RequestType6<P1, P2, P3, P4, P5, P6, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, P5, P6, P7, R, E, RO>(type: RequestType7<P1, P2, P3, P4, P5, P6, P7, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>(type: RequestType8<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, token?: CancellationToken): Thenable<R>;
-	sendRequest<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>(type: RequestType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, token?: CancellationToken): Thenable<R>;
+	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, R, E, RO>(type: RequestType1<P1, R, E, RO>, p1: P1, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, R, E, RO>(type: RequestType2<P1, P2, R, E, RO>, p1: P1, p2: P2, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, R, E, RO>(type: RequestType3<P1, P2, P3, R, E, RO>, p1: P1, p2: P2, p3: P3, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, R, E, RO>(type: RequestType4<P1, P2, P3, P4, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, P5, R, E, RO>(type: RequestType5<P1, P2, P3, P4, P5, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, P5, P6, R, E, RO>(type: RequestType6<P1, P2, P3, P4, P5, P6, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, P5, P6, P7, R, E, RO>(type: RequestType7<P1, P2, P3, P4, P5, P6, P7, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>(type: RequestType8<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>(type: RequestType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	/**
+	 * Sends a request by method name. The parameters are structured as
+	 * requested if the first argument is a [ParameterStructures](#ParameterStructures).
+	 */
+	sendRequest<R>(method: string, parameterStructures: ParameterStructures, ...params: any[]): Thenable<R>;
 	sendRequest<R>(method: string, ...params: any[]): Thenable<R>;
 
-	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): void;
-	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): void;
-	onRequest<P1, R, E, RO>(type: RequestType1<P1, R, E, RO>, handler: RequestHandler1<P1, R, E>): void;
-	onRequest<P1, P2, R, E, RO>(type: RequestType2<P1, P2, R, E, RO>, handler: RequestHandler2<P1, P2, R, E>): void;
-	onRequest<P1, P2, P3, R, E, RO>(type: RequestType3<P1, P2, P3, R, E, RO>, handler: RequestHandler3<P1, P2, P3, R, E>): void;
-	onRequest<P1, P2, P3, P4, R, E, RO>(type: RequestType4<P1, P2, P3, P4, R, E, RO>, handler: RequestHandler4<P1, P2, P3, P4, R, E>): void;
-	onRequest<P1, P2, P3, P4, P5, R, E, RO>(type: RequestType5<P1, P2, P3, P4, P5, R, E, RO>, handler: RequestHandler5<P1, P2, P3, P4, P5, R, E>): void;
-	onRequest<P1, P2, P3, P4, P5, P6, R, E, RO>(type: RequestType6<P1, P2, P3, P4, P5, P6, R, E, RO>, handler: RequestHandler6<P1, P2, P3, P4, P5, P6, R, E>): void;
-	onRequest<P1, P2, P3, P4, P5, P6, P7, R, E, RO>(type: RequestType7<P1, P2, P3, P4, P5, P6, P7, R, E, RO>, handler: RequestHandler7<P1, P2, P3, P4, P5, P6, P7, R, E>): void;
-	onRequest<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>(type: RequestType8<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>, handler: RequestHandler8<P1, P2, P3, P4, P5, P6, P7, P8, R, E>): void;
-	onRequest<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>(type: RequestType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>, handler: RequestHandler9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E>): void;
-	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): void;
-	onRequest(handler: StarRequestHandler): void;
+	/**
+	 * Installs a request handler. A handler installed later for the same
+	 * method takes precedence. Disposing the returned disposable removes the
+	 * handler again and the previous one becomes active.
+	 */
+	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): Disposable;
+	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): Disposable;
+	onRequest<P1, R, E, RO>(type: RequestType1<P1, R, E, RO>, handler: RequestHandler1<P1, R, E>): Disposable;
+	onRequest<P1, P2, R, E, RO>(type: RequestType2<P1, P2, R, E, RO>, handler: RequestHandler2<P1, P2, R, E>): Disposable;
+	onRequest<P1, P2, P3, R, E, RO>(type: RequestType3<P1, P2, P3, R, E, RO>, handler: RequestHandler3<P1, P2, P3, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, R, E, RO>(type: RequestType4<P1, P2, P3, P4, R, E, RO>, handler: RequestHandler4<P1, P2, P3, P4, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, P5, R, E, RO>(type: RequestType5<P1, P2, P3, P4, P5, R, E, RO>, handler: RequestHandler5<P1, P2, P3, P4, P5, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, P5, P6, R, E, RO>(type: RequestType6<P1, P2, P3, P4, P5, P6, R, E, RO>, handler: RequestHandler6<P1, P2, P3, P4, P5, P6, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, P5, P6, P7, R, E, RO>(type: RequestType7<P1, P2, P3, P4, P5, P6, P7, R, E, RO>, handler: RequestHandler7<P1, P2, P3, P4, P5, P6, P7, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>(type: RequestType8<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO>, handler: RequestHandler8<P1, P2, P3, P4, P5, P6, P7, P8, R, E>): Disposable;
+	onRequest<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>(type: RequestType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO>, handler: RequestHandler9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E>): Disposable;
+	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): Disposable;
+	onRequest(handler: StarRequestHandler): Disposable;
 
 	sendNotification<RO>(type: NotificationType0<RO>): void;
 	sendNotification<P, RO>(type: NotificationType<P, RO>, params?: P): void;
@@ -351,25 +617,63 @@ export interface MessageConnection {
 	sendNotification<P1, P2, P3, P4, P5, P6, P7, RO>(type: NotificationType7<P1, P2, P3, P4, P5, P6, P7, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7): void;
 	sendNotification<P1, P2, P3, P4, P5, P6, P7, P8, RO>(type: NotificationType8<P1, P2, P3, P4, P5, P6, P7, P8, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8): void;
 	sendNotification<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>(type: NotificationType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>, p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9): void;
+	/**
+	 * Sends a notification by method name. The parameters are structured as
+	 * requested if the first argument is a [ParameterStructures](#ParameterStructures).
+	 */
+	sendNotification(method: string, parameterStructures: ParameterStructures, ...params: any[]): void;
 	sendNotification(method: string, ...params: any[]): void;
 
-	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): void;
-	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): void;
-	onNotification<P1, RO>(type: NotificationType1<P1, RO>, handler: NotificationHandler1<P1>): void;
-	onNotification<P1, P2, RO>(type: NotificationType2<P1, P2, RO>, handler: NotificationHandler2<P1, P2>): void;
-	onNotification<P1, P2, P3, RO>(type: NotificationType3<P1, P2, P3, RO>, handler: NotificationHandler3<P1, P2, P3>): void;
-	onNotification<P1, P2, P3, P4, RO>(type: NotificationType4<P1, P2, P3, P4, RO>, handler: NotificationHandler4<P1, P2, P3, P4>): void;
-	onNotification<P1, P2, P3, P4, P5, RO>(type: NotificationType5<P1, P2, P3, P4, P5, RO>, handler: NotificationHandler5<P1, P2, P3, P4, P5>): void;
-	onNotification<P1, P2, P3, P4, P5, P6, RO>(type: NotificationType6<P1, P2, P3, P4, P5, P6, RO>, handler: NotificationHandler6<P1, P2, P3, P4, P5, P6>): void;
-	onNotification<P1, P2, P3, P4, P5, P6, P7, RO>(type: NotificationType7<P1, P2, P3, P4, P5, P6, P7, RO>, handler: NotificationHandler7<P1, P2, P3, P4, P5, P6, P7>): void;
-	onNotification<P1, P2, P3, P4, P5, P6, P7, P8, RO>(type: NotificationType8<P1, P2, P3, P4, P5, P6, P7, P8, RO>, handler: NotificationHandler8<P1, P2, P3, P4, P5, P6, P7, P8>): void;
-	onNotification<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>(type: NotificationType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>, handler: NotificationHandler9<P1, P2, P3, P4, P5, P6, P7, P8, P9>): void;
-	onNotification(method: string, handler: GenericNotificationHandler): void;
-	onNotification(handler: StarNotificationHandler): void;
+	/**
+	 * Installs a notification handler. All handlers installed for a method
+	 * are called in the order they got installed. Disposing the returned
+	 * disposable removes the handler again.
+	 */
+	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): Disposable;
+	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): Disposable;
+	onNotification<P1, RO>(type: NotificationType1<P1, RO>, handler: NotificationHandler1<P1>): Disposable;
+	onNotification<P1, P2, RO>(type: NotificationType2<P1, P2, RO>, handler: NotificationHandler2<P1, P2>): Disposable;
+	onNotification<P1, P2, P3, RO>(type: NotificationType3<P1, P2, P3, RO>, handler: NotificationHandler3<P1, P2, P3>): Disposable;
+	onNotification<P1, P2, P3, P4, RO>(type: NotificationType4<P1, P2, P3, P4, RO>, handler: NotificationHandler4<P1, P2, P3, P4>): Disposable;
+	onNotification<P1, P2, P3, P4, P5, RO>(type: NotificationType5<P1, P2, P3, P4, P5, RO>, handler: NotificationHandler5<P1, P2, P3, P4, P5>): Disposable;
+	onNotification<P1, P2, P3, P4, P5, P6, RO>(type: NotificationType6<P1, P2, P3, P4, P5, P6, RO>, handler: NotificationHandler6<P1, P2, P3, P4, P5, P6>): Disposable;
+	onNotification<P1, P2, P3, P4, P5, P6, P7, RO>(type: NotificationType7<P1, P2, P3, P4, P5, P6, P7, RO>, handler: NotificationHandler7<P1, P2, P3, P4, P5, P6, P7>): Disposable;
+	onNotification<P1, P2, P3, P4, P5, P6, P7, P8, RO>(type: NotificationType8<P1, P2, P3, P4, P5, P6, P7, P8, RO>, handler: NotificationHandler8<P1, P2, P3, P4, P5, P6, P7, P8>): Disposable;
+	onNotification<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>(type: NotificationType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO>, handler: NotificationHandler9<P1, P2, P3, P4, P5, P6, P7, P8, P9>): Disposable;
+	onNotification(method: string, handler: GenericNotificationHandler): Disposable;
+	onNotification(handler: StarNotificationHandler): Disposable;
+
+	/**
+	 * Sends all requests and notifications issued by the given callback as
+	 * one JSON-RPC batch using a single write on the underlying writer.
+	 * Responses to batched requests are delivered through the promises
+	 * returned by the batch's `sendRequest` calls.
+	 *
+	 * @param callback A callback that issues the messages of the batch.
+	 */
+	sendBatch(callback: (batch: MessageBatch) => void): void;
+
+	/**
+	 * Adds an interceptor to the connection. Incoming messages pass the
+	 * interceptors in the order they got added, outgoing messages in the
+	 * reverse order. So the interceptor added first is closest to the wire.
+	 *
+	 * @param interceptor The interceptor to add.
+	 * @return A disposable removing the interceptor.
+	 */
+	addInterceptor(interceptor: MessageInterceptor): Disposable;
 
 	onUnhandledNotification: Event<NotificationMessage>;
 
 	onProgress<P>(type: ProgressType<P>, token: string | number, handler: NotificationHandler<P>): Disposable;
+
+	/**
+	 * Returns an async iterator yielding the progress reported using the given
+	 * token. The iteration ends when the response to the request carrying the
+	 * token as its `partialResultToken` or `workDoneToken` parameter arrives,
+	 * or when the connection closes.
+	 */
+	progressIterator<P>(type: ProgressType<P>, token: ProgressToken): EventIterator<P>;
 	sendProgress<P>(type: ProgressType<P>, token: string | number, value: P): void;
 
 	onUnhandledProgress: Event<ProgressParams<any>>;
@@ -377,6 +681,18 @@ export interface MessageConnection {
 	trace(value: Trace, tracer: Tracer, sendNotification?: boolean): void;
 	trace(value: Trace, tracer: Tracer, traceOptions?: TraceOptions): void;
 
+	/**
+	 * Logs every message sent or received in the `TraceFormat.JSON` format
+	 * to the given tracer independent of the current trace value. Received
+	 * messages are logged when they arrive, including the ones which never
+	 * get dispatched. Use a [SessionRecorder](#SessionRecorder) to record
+	 * the session to a file.
+	 *
+	 * @param recorder The tracer receiving the messages.
+	 * @return A disposable to stop recording.
+	 */
+	record(recorder: Tracer): Disposable;
+
 	onError: Event<[Error, Message | undefined, number | undefined]>;
 	onClose: Event<void>;
 	listen(): void;
@@ -384,16 +700,47 @@ export interface MessageConnection {
 	onDispose: Event<void>;
 	dispose(): void;
 
-	inspect(): void;
+	/**
+	 * Returns a snapshot of the connection's statistics.
+	 */
+	getStatistics(): ConnectionStatistics;
+
+	/**
+	 * An event firing periodically with the connection's statistics while it
+	 * has listeners. See `ConnectionStrategy.statisticsInterval`.
+	 */
+	onStatistics: Event<ConnectionStatistics>;
+
+	/**
+	 * An event firing if no message got received for the number of heartbeat
+	 * intervals configured using `ConnectionStrategy.heartbeat`. Never fires
+	 * before the other side answered a heartbeat with a `$/pong`.
+	 */
+	onUnresponsive: Event<void>;
 }
 
+/**
+ * The subset of a [MessageConnection](#MessageConnection) that is available
+ * to collect the messages of a batch.
+ */
+export type MessageBatch = Pick<MessageConnection, 'sendRequest' | 'sendNotification'>;
+
 interface ResponsePromise {
 	method: string;
 	timerStart: number;
+	timeout?: NodeJS.Timer;
 	resolve: (response: any) => void;
 	reject: (error: any) => void
 }
 
+interface ResponseBatch {
+	/**
+	 * The number of requests of the batch which aren't answered yet.
+	 */
+	pending: number;
+	responses: ResponseMessage[];
+}
+
 enum ConnectionState {
 	New = 1,
 	Listening = 2,
@@ -416,20 +763,50 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	let unknownResponseSquenceNumber = 0;
 	const version: string = '2.0';
 
-	let starRequestHandler: StarRequestHandler | undefined = undefined;
-	let requestHandlers: { [name: string]: RequestHandlerElement | undefined } = Object.create(null);
-	let starNotificationHandler: StarNotificationHandler | undefined = undefined;
-	let notificationHandlers: { [name: string]: NotificationHandlerElement | undefined } = Object.create(null);
+	// Handlers registered later for the same method hide the ones registered
+	// before. All notification handlers are called.
+	let starRequestHandlers: StarRequestHandler[] = [];
+	let requestHandlers: { [name: string]: RequestHandlerElement[] | undefined } = Object.create(null);
+	let starNotificationHandlers: StarNotificationHandler[] = [];
+	let notificationHandlers: { [name: string]: NotificationHandlerElement[] | undefined } = Object.create(null);
 	let progressHandlers: Map<number | string, NotificationHandler1<any>> = new Map();
+	// Fire when the request reporting progress using the token finished.
+	let progressEndEmitters: Map<ProgressToken, Emitter<void>> = new Map();
 
 	let timer: NodeJS.Timer | undefined;
-	let messageQueue: MessageQueue = new LinkedMap<string, Message>();
+	// Sorted by descending priority.
+	let messageQueues: PriorityMessageQueue[] = [];
+	// The reads and writes whose handlers are running if dispatching concurrently.
+	let runningReads: number = 0;
+	let runningWrite: boolean = false;
 	let responsePromises: { [name: string]: ResponsePromise } = Object.create(null);
-	let requestTokens: { [id: string]: CancellationTokenSource } = Object.create(null);
+	let requestTokens: { [id: string]: AbstractCancellationTokenSource } = Object.create(null);
+	let responseBatches: { [id: string]: ResponseBatch } = Object.create(null);
+	let outgoingBatch: Message[] | undefined;
+	let interceptors: MessageInterceptor[] = [];
+	let cancellationStrategy: CancellationStrategy = strategy && strategy.cancellationStrategy ? strategy.cancellationStrategy : CancellationStrategy.Message;
 
 	let trace: Trace = Trace.Off;
 	let traceFormat: TraceFormat = TraceFormat.Text;
 	let tracer: Tracer | undefined;
+	let recorders: Tracer[] = [];
+
+	let statistics = new MethodStatisticsCollector();
+	let statisticsTimer: NodeJS.Timer | undefined;
+	let statisticsEmitter: Emitter<ConnectionStatistics> = new Emitter<ConnectionStatistics>({
+		onFirstListenerAdd: () => {
+			if (isClosed() || isDisposed()) {
+				return;
+			}
+			let interval = strategy && strategy.statisticsInterval !== void 0 ? strategy.statisticsInterval : 60000;
+			statisticsTimer = setInterval(() => statisticsEmitter.fire(getStatistics()), interval);
+			// Listening for statistics must not keep the process alive.
+			statisticsTimer.unref();
+		},
+		onLastListenerRemove: () => {
+			stopStatisticsTimer();
+		}
+	});
 
 	let state: ConnectionState = ConnectionState.New;
 	let errorEmitter: Emitter<[Error, Message | undefined, number | undefined]> = new Emitter<[Error, Message, number]>();
@@ -439,6 +816,13 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 
 	let disposeEmitter: Emitter<void> = new Emitter<void>();
 
+	let heartbeatTimer: NodeJS.Timer | undefined;
+	let receivedSinceHeartbeat: boolean = false;
+	let missedHeartbeats: number = 0;
+	// Whether the other side ever answered a heartbeat.
+	let pongReceived: boolean = false;
+	let unresponsiveEmitter: Emitter<void> = new Emitter<void>();
+
 	function createRequestQueueKey(id: string | number): string {
 		return 'req-' + id.toString();
 	}
@@ -455,14 +839,101 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		return 'not-' + (++notificationSquenceNumber).toString();
 	}
 
-	function addMessageToQueue(queue: MessageQueue, message: Message): void {
+	function getMessageQueue(priority: number): PriorityMessageQueue {
+		let index = 0;
+		for (; index < messageQueues.length; index++) {
+			let candidate = messageQueues[index];
+			if (candidate.priority === priority) {
+				return candidate;
+			}
+			if (candidate.priority < priority) {
+				break;
+			}
+		}
+		let result: PriorityMessageQueue = { priority, queue: new LinkedMap<string, Message>(), lastKey: undefined };
+		messageQueues.splice(index, 0, result);
+		return result;
+	}
+
+	function addMessageToQueue(message: Message): void {
+		let priorityQueue = getMessageQueue(strategy && strategy.messagePriority ? strategy.messagePriority(message) : 0);
+		let queue = priorityQueue.queue;
+		let key: string;
 		if (isRequestMessage(message)) {
-			queue.set(createRequestQueueKey(message.id), message);
+			key = createRequestQueueKey(message.id);
 		} else if (isResponseMessage(message)) {
-			queue.set(createResponseQueueKey(message.id), message);
+			key = createResponseQueueKey(message.id);
 		} else {
-			queue.set(createNotificationQueueKey(), message);
+			key = createNotificationQueueKey();
+			if (strategy && strategy.coalesceNotifications && priorityQueue.lastKey !== void 0 && isNotificationMessage(message)) {
+				let queued = queue.get(priorityQueue.lastKey);
+				if (isNotificationMessage(queued) && strategy.coalesceNotifications(queued, message)) {
+					queue.delete(priorityQueue.lastKey);
+				}
+			}
+		}
+		queue.set(key, message);
+		priorityQueue.lastKey = key;
+	}
+
+	function getQueuedMessage(key: string): Message | undefined {
+		for (let priorityQueue of messageQueues) {
+			let result = priorityQueue.queue.get(key);
+			if (result !== void 0) {
+				return result;
+			}
 		}
+		return undefined;
+	}
+
+	function deleteQueuedMessage(key: string): void {
+		for (let priorityQueue of messageQueues) {
+			if (priorityQueue.queue.delete(key)) {
+				return;
+			}
+		}
+	}
+
+	function peekQueuedMessage(): Message | undefined {
+		for (let priorityQueue of messageQueues) {
+			if (priorityQueue.queue.size > 0) {
+				return priorityQueue.queue.first;
+			}
+		}
+		return undefined;
+	}
+
+	function shiftQueuedMessage(): Message | undefined {
+		for (let priorityQueue of messageQueues) {
+			if (priorityQueue.queue.size > 0) {
+				return priorityQueue.queue.shift();
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Removes the first queued response or cancellation.
+	 */
+	function shiftUnorderedMessage(): Message | undefined {
+		for (let priorityQueue of messageQueues) {
+			for (let key of priorityQueue.queue.keys()) {
+				let message = priorityQueue.queue.get(key);
+				if (message !== void 0 && getMethodKind(message) === 'independent') {
+					priorityQueue.queue.delete(key);
+					return message;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	function queuedMessageCount(): number {
+		let result = 0;
+		for (let priorityQueue of messageQueues) {
+			result += priorityQueue.queue.size;
+		}
+		return result;
 	}
 
 	function cancelUndispatched(_message: Message): ResponseMessage | undefined {
@@ -484,11 +955,25 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	function closeHandler(): void {
 		if (state === ConnectionState.New || state === ConnectionState.Listening) {
 			state = ConnectionState.Closed;
+			stopStatisticsTimer();
+			stopHeartbeat();
+			endAllProgress();
 			closeEmitter.fire(undefined);
 		}
 		// If the connection is disposed don't sent close events.
 	}
 
+	function endProgress(token: ProgressToken): void {
+		let emitter = progressEndEmitters.get(token);
+		if (emitter) {
+			emitter.fire(undefined);
+		}
+	}
+
+	function endAllProgress(): void {
+		Array.from(progressEndEmitters.keys()).forEach(endProgress);
+	}
+
 	function readErrorHandler(error: Error): void {
 		errorEmitter.fire([error, undefined, undefined]);
 	}
@@ -503,8 +988,16 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	messageWriter.onClose(closeHandler);
 	messageWriter.onError(writeErrorHandler);
 
+	// Content encoding negotiation: the writer advertises the encodings the reader
+	// can decode and encodes using one the other side has advertised.
+	if (messageReader instanceof StreamMessageReader && (messageWriter instanceof StreamMessageWriter || messageWriter instanceof SocketMessageWriter)) {
+		const writer = messageWriter;
+		writer.setAcceptEncoding(messageReader.acceptEncoding);
+		messageReader.onAcceptEncoding((names) => writer.setPeerAcceptEncoding(names));
+	}
+
 	function triggerMessageQueue(): void {
-		if (timer || messageQueue.size === 0) {
+		if (timer || queuedMessageCount() === 0) {
 			return;
 		}
 		timer = setImmediate(() => {
@@ -513,55 +1006,294 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		});
 	}
 
+	function getMethodKind(message: Message): MethodKind {
+		if (strategy && strategy.methodKind && (isRequestMessage(message) || isNotificationMessage(message)) && message.method !== CancelNotification.type.method) {
+			return strategy.methodKind(message.method) || 'independent';
+		}
+		return 'independent';
+	}
+
 	function processMessageQueue(): void {
-		if (messageQueue.size === 0) {
+		let kind: MethodKind = 'independent';
+		let message: Message | undefined;
+		if (strategy && strategy.methodKind) {
+			let next = peekQueuedMessage();
+			if (next !== void 0) {
+				kind = getMethodKind(next);
+			}
+			let maxReads = strategy.maxConcurrentReads !== void 0 ? strategy.maxConcurrentReads : 4;
+			if ((kind === 'write' && (runningWrite || runningReads > 0)) || (kind === 'read' && (runningWrite || runningReads >= maxReads))) {
+				// Responses, cancellations and independent methods don't wait
+				// since a running handler might wait for them. Reads and writes
+				// continue once a running handler finished.
+				kind = 'independent';
+				message = shiftUnorderedMessage();
+				if (message === void 0) {
+					return;
+				}
+			}
+		}
+		if (message === void 0) {
+			message = shiftQueuedMessage();
+		}
+		if (message === void 0) {
 			return;
 		}
-		let message = messageQueue.shift()!;
 		try {
+			let running: Thenable<any> | undefined;
 			if (isRequestMessage(message)) {
-				handleRequest(message);
+				running = handleRequest(message);
 			} else if (isNotificationMessage(message)) {
-				handleNotification(message);
+				running = handleNotification(message);
 			} else if (isResponseMessage(message)) {
 				handleResponse(message);
 			} else {
 				handleInvalidMessage(message);
 			}
+			if (running !== void 0 && kind !== 'independent') {
+				trackRunning(kind, running);
+			}
 		} finally {
 			triggerMessageQueue();
 		}
 	}
 
+	function trackRunning(kind: MethodKind, running: Thenable<any>): void {
+		if (kind === 'write') {
+			runningWrite = true;
+		} else {
+			runningReads++;
+		}
+		let finished = () => {
+			if (kind === 'write') {
+				runningWrite = false;
+			} else {
+				runningReads--;
+			}
+			triggerMessageQueue();
+		};
+		running.then(finished, finished);
+	}
+
 	let callback: DataCallback = (message) => {
+		receivedSinceHeartbeat = true;
+		// Record on arrival so that messages which never get dispatched, for
+		// example unhandled or cancelled ones, are part of the recording.
+		if (recorders.length > 0) {
+			(Is.array<Message>(message) ? message : [message]).forEach(recordReceivedMessage);
+		}
 		try {
-			// We have received a cancellation message. Check if the message is still in the queue
-			// and cancel it if allowed to do so.
-			if (isNotificationMessage(message) && message.method === CancelNotification.type.method) {
-				let key = createRequestQueueKey((message.params as CancelParams).id);
-				let toCancel = messageQueue.get(key);
-				if (isRequestMessage(toCancel)) {
-					let response = strategy && strategy.cancelUndispatched ? strategy.cancelUndispatched(toCancel, cancelUndispatched) : cancelUndispatched(toCancel);
-					if (response && (response.error !== void 0 || response.result !== void 0)) {
-						messageQueue.delete(key);
-						response.id = toCancel.id;
-						traceSendingResponse(response, message.method, Date.now());
-						messageWriter.write(response);
-						return;
-					}
-				}
+			if (Is.array<Message>(message)) {
+				receiveBatch(message);
+			} else {
+				receiveMessage(message);
 			}
-			addMessageToQueue(messageQueue, message);
 		} finally {
 			triggerMessageQueue();
 		}
 	};
 
-	function handleRequest(requestMessage: RequestMessage) {
+	function receiveMessage(message: Message): void {
+		if (interceptors.length === 0) {
+			queueMessage(message);
+			return;
+		}
+		interceptIncoming(message, interceptors.slice(), 0);
+	}
+
+	function interceptIncoming(message: Message, chain: MessageInterceptor[], index: number): void {
+		while (index < chain.length && !chain[index].incoming) {
+			index++;
+		}
+		if (index === chain.length) {
+			queueMessage(message);
+			// An interceptor might pass the message on asynchronously.
+			triggerMessageQueue();
+			return;
+		}
+		chain[index].incoming!(message, (next) => interceptIncoming(next, chain, index + 1), writeInterceptedMessage);
+	}
+
+	function queueMessage(message: Message): void {
+		// We have received a cancellation message. Check if the message is still in the queue
+		// and cancel it if allowed to do so.
+		if (isNotificationMessage(message) && message.method === CancelNotification.type.method) {
+			let key = createRequestQueueKey((message.params as CancelParams).id);
+			let toCancel = getQueuedMessage(key);
+			if (isRequestMessage(toCancel)) {
+				let response = strategy && strategy.cancelUndispatched ? strategy.cancelUndispatched(toCancel, cancelUndispatched) : cancelUndispatched(toCancel);
+				if (response && (response.error !== void 0 || response.result !== void 0)) {
+					deleteQueuedMessage(key);
+					response.id = toCancel.id;
+					traceSendingResponse(response, message.method, Date.now());
+					writeResponse(response);
+					return;
+				}
+			}
+		}
+		addMessageToQueue(message);
+	}
+
+	function receiveBatch(messages: Message[]): void {
+		if (messages.length === 0) {
+			logger.error('Received empty batch message.');
+			messageWriter.write(createInvalidRequestResponse('Received empty batch.'));
+			return;
+		}
+		// Register the batch for all requests first so that a response
+		// written synchronously can't complete the batch prematurely. The
+		// batch itself is pending until all its messages got received.
+		let batch: ResponseBatch = { pending: 1, responses: [] };
+		// Requests reusing the id of an earlier request in the batch couldn't
+		// be told apart. They are answered with an error instead.
+		let ids: Set<string> = new Set();
+		let duplicates: Set<Message> = new Set();
+		for (let message of messages) {
+			if (isRequestMessage(message)) {
+				let key = String(message.id);
+				if (ids.has(key)) {
+					duplicates.add(message);
+					continue;
+				}
+				ids.add(key);
+				batch.pending++;
+				responseBatches[key] = batch;
+			}
+		}
+		for (let message of messages) {
+			if (duplicates.has(message)) {
+				logger.error(`Received batch containing the request id ${(message as RequestMessage).id} more than once.`);
+				batch.responses.push(createInvalidRequestResponse(`Batch contains the request id ${(message as RequestMessage).id} more than once.`));
+			} else if (isRequestMessage(message)) {
+				receiveMessage(message);
+				// An incoming interceptor dropped or delayed the request. A
+				// delayed request is answered on its own.
+				let key = String(message.id);
+				if (responseBatches[key] === batch && getQueuedMessage(createRequestQueueKey(message.id)) === void 0) {
+					delete responseBatches[key];
+					completeBatchedResponse(batch);
+				}
+			} else if (isNotificationMessage(message) || isResponseMessage(message)) {
+				receiveMessage(message);
+			} else {
+				handleInvalidMessage(message);
+				batch.responses.push(createInvalidRequestResponse('Batch entry is neither a request, a notification nor a response.'));
+			}
+		}
+		completeBatchedResponse(batch);
+	}
+
+	function createInvalidRequestResponse(message: string): ResponseMessage {
+		return {
+			jsonrpc: version,
+			id: null,
+			error: new ResponseError<void>(ErrorCodes.InvalidRequest, message).toJson()
+		};
+	}
+
+	function interceptOutgoing(message: Message, chain: MessageInterceptor[], index: number): void {
+		while (index >= 0 && !chain[index].outgoing) {
+			index--;
+		}
+		if (index < 0) {
+			writeInterceptedMessage(message);
+			return;
+		}
+		chain[index].outgoing!(message, (next) => interceptOutgoing(next, chain, index - 1), receiveInterceptedMessage);
+	}
+
+	function writeInterceptedMessage(message: Message): void {
+		if (isResponseMessage(message)) {
+			doWriteResponse(message);
+		} else {
+			doWriteMessage(message);
+		}
+	}
+
+	function receiveInterceptedMessage(message: Message): void {
+		queueMessage(message);
+		triggerMessageQueue();
+	}
+
+	function writeResponse(response: ResponseMessage): void {
+		if (interceptors.length === 0) {
+			doWriteResponse(response);
+			return;
+		}
+		let chain = interceptors.slice();
+		interceptOutgoing(response, chain, chain.length - 1);
+		// A response an interceptor dropped or delayed must not hold back the batch
+		// it belongs to. A delayed response is written on its own.
+		let key = response.id !== null ? String(response.id) : undefined;
+		let batch = key !== undefined ? responseBatches[key] : undefined;
+		if (batch !== undefined) {
+			delete responseBatches[key!];
+			completeBatchedResponse(batch);
+		}
+	}
+
+	function doWriteResponse(response: ResponseMessage): void {
+		let key = response.id !== null ? String(response.id) : undefined;
+		let batch = key !== undefined ? responseBatches[key] : undefined;
+		if (batch === undefined) {
+			messageWriter.write(response);
+			return;
+		}
+		delete responseBatches[key!];
+		batch.responses.push(response);
+		completeBatchedResponse(batch);
+	}
+
+	function completeBatchedResponse(batch: ResponseBatch): void {
+		batch.pending--;
+		if (batch.pending === 0 && batch.responses.length > 0) {
+			writeBatch(batch.responses);
+		}
+	}
+
+	function writeMessage(message: Message): void {
+		if (interceptors.length === 0) {
+			doWriteMessage(message);
+			return;
+		}
+		let chain = interceptors.slice();
+		interceptOutgoing(message, chain, chain.length - 1);
+	}
+
+	function doWriteMessage(message: Message): void {
+		if (outgoingBatch) {
+			outgoingBatch.push(message);
+		} else {
+			messageWriter.write(message);
+		}
+	}
+
+	function rejectBatchedRequests(batch: BatchMessage, error: any): void {
+		for (let message of batch) {
+			if (isRequestMessage(message)) {
+				let key = String(message.id);
+				let responsePromise = responsePromises[key];
+				if (responsePromise) {
+					delete responsePromises[key];
+					if (responsePromise.timeout) {
+						clearTimeout(responsePromise.timeout);
+					}
+					responsePromise.reject(new ResponseError<void>(ErrorCodes.MessageWriteError, error && error.message ? error.message : 'Unknown reason'));
+				}
+			}
+		}
+	}
+
+	function writeBatch(messages: BatchMessage): void {
+		// A batch is a JSON array of messages and is written as a whole.
+		messageWriter.write(messages);
+	}
+
+	function handleRequest(requestMessage: RequestMessage): Thenable<void> | undefined {
 		if (isDisposed()) {
 			// we return here silently since we fired an event when the
 			// connection got disposed.
-			return;
+			return undefined;
 		}
 
 		function reply(resultOrError: any | ResponseError<any>, method: string, startTime: number): void {
@@ -574,8 +1306,9 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 			} else {
 				message.result = resultOrError === void 0 ? null : resultOrError;
 			}
+			statistics.responseSent(method, Date.now() - startTime);
 			traceSendingResponse(message, method, startTime);
-			messageWriter.write(message);
+			writeResponse(message);
 		}
 		function replyError(error: ResponseError<any>, method: string, startTime: number) {
 			let message: ResponseMessage = {
@@ -583,8 +1316,9 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 				id: requestMessage.id,
 				error: error.toJson()
 			};
+			statistics.responseSent(method, Date.now() - startTime);
 			traceSendingResponse(message, method, startTime);
-			messageWriter.write(message);
+			writeResponse(message);
 		}
 		function replySuccess(result: any, method: string, startTime: number) {
 			// The JSON RPC defines that a response must either have a result or an error
@@ -597,13 +1331,17 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 				id: requestMessage.id,
 				result: result
 			};
+			statistics.responseSent(method, Date.now() - startTime);
 			traceSendingResponse(message, method, startTime);
-			messageWriter.write(message);
+			writeResponse(message);
 		}
 
+		statistics.requestReceived(requestMessage.method);
 		traceReceivedRequest(requestMessage);
 
-		let element = requestHandlers[requestMessage.method];
+		let elements = requestHandlers[requestMessage.method];
+		let element = elements !== void 0 && elements.length > 0 ? elements[elements.length - 1] : undefined;
+		let starRequestHandler = starRequestHandlers.length > 0 ? starRequestHandlers[starRequestHandlers.length - 1] : undefined;
 		let type: MessageType | undefined;
 		let requestHandler: GenericRequestHandler<any, any> | undefined;
 		if (element) {
@@ -611,32 +1349,26 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 			requestHandler = element.handler;
 		}
 		let startTime = Date.now();
-		if (requestHandler || starRequestHandler) {
-			let cancellationSource = new CancellationTokenSource();
+		let running: Thenable<void> | undefined;
+		let problem = requestHandler && type !== void 0 && type.validator !== void 0 ? type.validator(requestMessage.params) : undefined;
+		if (problem !== void 0) {
+			replyError(new ResponseError<void>(ErrorCodes.InvalidParams, `Request ${requestMessage.method} has invalid parameters: ${problem}`), requestMessage.method, startTime);
+		} else if (requestHandler || starRequestHandler) {
+			let cancellationSource = cancellationStrategy.receiver.createCancellationTokenSource(requestMessage.id);
 			let tokenKey = String(requestMessage.id);
 			requestTokens[tokenKey] = cancellationSource;
 			try {
-				let handlerResult: any;
-				if (requestMessage.params === void 0 || (type !== void 0 && type.numberOfParams === 0)) {
-					handlerResult = requestHandler
-						? requestHandler(cancellationSource.token)
-						: starRequestHandler!(requestMessage.method, cancellationSource.token);
-				} else if (Is.array(requestMessage.params) && (type === void 0 || type.numberOfParams > 1)) {
-					handlerResult = requestHandler
-						? requestHandler(...requestMessage.params, cancellationSource.token)
-						: starRequestHandler!(requestMessage.method, ...requestMessage.params, cancellationSource.token);
-				} else {
-					handlerResult = requestHandler
-						? requestHandler(requestMessage.params, cancellationSource.token)
-						: starRequestHandler!(requestMessage.method, requestMessage.params, cancellationSource.token);
-				}
+				let args = computeHandlerArguments(type, requestMessage.params);
+				let handlerResult: any = requestHandler
+					? requestHandler(...args, cancellationSource.token)
+					: starRequestHandler!(requestMessage.method, ...args, cancellationSource.token);
 
 				let promise = <Thenable<any | ResponseError<any>>>handlerResult;
 				if (!handlerResult) {
 					delete requestTokens[tokenKey];
 					replySuccess(handlerResult, requestMessage.method, startTime);
 				} else if (promise.then) {
-					promise.then((resultOrError): any | ResponseError<any> => {
+					running = promise.then((resultOrError): any | ResponseError<any> => {
 						delete requestTokens[tokenKey];
 						reply(resultOrError, requestMessage.method, startTime);
 					}, error => {
@@ -666,6 +1398,7 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		} else {
 			replyError(new ResponseError<void>(ErrorCodes.MethodNotFound, `Unhandled method ${requestMessage.method}`), requestMessage.method, startTime);
 		}
+		return running;
 	}
 
 	function handleResponse(responseMessage: ResponseMessage) {
@@ -684,8 +1417,14 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 			let key = String(responseMessage.id);
 			let responsePromise = responsePromises[key];
 			traceReceivedResponse(responseMessage, responsePromise);
+			// Also covers responses arriving after the request timed out.
+			cancellationStrategy.sender.cleanup(responseMessage.id);
 			if (responsePromise) {
+				statistics.responseReceived(responsePromise.method, Date.now() - responsePromise.timerStart);
 				delete responsePromises[key];
+				if (responsePromise.timeout) {
+					clearTimeout(responsePromise.timeout);
+				}
 				try {
 					if (responseMessage.error) {
 						let error = responseMessage.error;
@@ -707,37 +1446,50 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 
 	}
 
-	function handleNotification(message: NotificationMessage) {
+	function handleNotification(message: NotificationMessage): Thenable<any> | undefined {
 		if (isDisposed()) {
 			// See handle request.
-			return;
+			return undefined;
 		}
-		let type: MessageType | undefined = undefined;
-		let notificationHandler: GenericNotificationHandler | undefined;
+		statistics.notificationReceived(message.method);
+		let elements: NotificationHandlerElement[];
 		if (message.method === CancelNotification.type.method) {
-			notificationHandler = (params: CancelParams) => {
-				let id = params.id;
-				let source = requestTokens[String(id)];
-				if (source) {
-					source.cancel();
+			elements = [{
+				type: undefined,
+				handler: (params: CancelParams) => {
+					let id = params.id;
+					let source = requestTokens[String(id)];
+					if (source) {
+						source.cancel();
+					}
 				}
-			};
+			}];
 		} else {
-			let element = notificationHandlers[message.method];
-			if (element) {
-				notificationHandler = element.handler;
-				type = element.type;
-			}
+			// Copy since handlers might get disposed while being called.
+			elements = (notificationHandlers[message.method] || []).slice();
+		}
+		if (elements.length === 0 && starNotificationHandlers.length > 0) {
+			let starNotificationHandler = starNotificationHandlers[starNotificationHandlers.length - 1];
+			elements = [{ type: undefined, handler: (...params: any[]) => starNotificationHandler(message.method, ...params) }];
 		}
-		if (notificationHandler || starNotificationHandler) {
+		if (elements.length === 0) {
+			unhandledNotificationEmitter.fire(message);
+			return undefined;
+		}
+		traceReceivedNotification(message);
+		let running: Thenable<any>[] = [];
+		for (let element of elements) {
+			let type = element.type;
+			let problem = type !== void 0 && type.validator !== void 0 ? type.validator(message.params) : undefined;
+			if (problem !== void 0) {
+				logger.error(`Notification ${message.method} has invalid parameters: ${problem}`);
+				continue;
+			}
 			try {
-				traceReceivedNotification(message);
-				if (message.params === void 0 || (type !== void 0 && type.numberOfParams === 0)) {
-					notificationHandler ? notificationHandler() : starNotificationHandler!(message.method);
-				} else if (Is.array(message.params) && (type === void 0 || type.numberOfParams > 1)) {
-					notificationHandler ? notificationHandler(...message.params) : starNotificationHandler!(message.method, ...message.params);
-				} else {
-					notificationHandler ? notificationHandler(message.params) : starNotificationHandler!(message.method, message.params);
+				let result: any = element.handler(...computeHandlerArguments(type, message.params));
+				// Asynchronous handlers are awaited if dispatching concurrently.
+				if (result && Is.func(result.then)) {
+					running.push(result);
 				}
 			} catch (error) {
 				if (error.message) {
@@ -746,9 +1498,21 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 					logger.error(`Notification handler '${message.method}' failed unexpectedly.`);
 				}
 			}
-		} else {
-			unhandledNotificationEmitter.fire(message);
 		}
+		if (running.length === 0) {
+			return undefined;
+		}
+		return running.length === 1 ? running[0] : Promise.all(running);
+	}
+
+	function addHandler<T>(handlers: T[], handler: T): Disposable {
+		handlers.push(handler);
+		return Disposable.create(() => {
+			let index = handlers.indexOf(handler);
+			if (index !== -1) {
+				handlers.splice(index, 1);
+			}
+		});
 	}
 
 	function handleInvalidMessage(message: Message) {
@@ -769,6 +1533,7 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	}
 
 	function traceSendingRequest(message: RequestMessage): void {
+		recordLSPMessage('send-request', message);
 		if (trace === Trace.Off || !tracer) {
 			return;
 		}
@@ -785,6 +1550,7 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	}
 
 	function traceSendingNotification(message: NotificationMessage): void {
+		recordLSPMessage('send-notification', message);
 		if (trace === Trace.Off || !tracer) {
 			return;
 		}
@@ -805,6 +1571,7 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 	}
 
 	function traceSendingResponse(message: ResponseMessage, method: string, startTime: number): void {
+		recordLSPMessage('send-response', message);
 		if (trace === Trace.Off || !tracer) {
 			return;
 		}
@@ -893,6 +1660,44 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		}
 	}
 
+	function traceRequestTimeout(message: RequestMessage, timeout: number): void {
+		recordLSPMessage('request-timeout', message);
+		if (trace === Trace.Off || !tracer) {
+			return;
+		}
+
+		if (traceFormat === TraceFormat.Text) {
+			tracer.log(`Request '${message.method} - (${message.id})' timed out after ${timeout}ms.`);
+		} else {
+			logLSPMessage('request-timeout', message);
+		}
+	}
+
+	function recordReceivedMessage(message: Message): void {
+		if (isRequestMessage(message)) {
+			recordLSPMessage('receive-request', message);
+		} else if (isNotificationMessage(message)) {
+			recordLSPMessage('receive-notification', message);
+		} else if (isResponseMessage(message)) {
+			recordLSPMessage('receive-response', message);
+		}
+	}
+
+	function recordLSPMessage(type: LSPMessageType, message: RequestMessage | ResponseMessage | NotificationMessage): void {
+		if (recorders.length === 0) {
+			return;
+		}
+		const lspMessage = {
+			isLSPMessage: true,
+			type,
+			message,
+			timestamp: Date.now()
+		};
+		for (const recorder of recorders) {
+			recorder.log(lspMessage);
+		}
+	}
+
 	function logLSPMessage(type: LSPMessageType, message: RequestMessage | ResponseMessage | NotificationMessage): void {
 		if (!tracer || trace === Trace.Off) {
 			return;
@@ -908,6 +1713,64 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		tracer.log(lspMessage);
 	}
 
+	function getStatistics(): ConnectionStatistics {
+		let methods = statistics.snapshot();
+		return {
+			timestamp: Date.now(),
+			requests: methods.requests,
+			notifications: methods.notifications,
+			queueDepth: queuedMessageCount(),
+			pendingResponses: Object.keys(responsePromises).length,
+			activeCancellationTokens: Object.keys(requestTokens).length,
+			bytesRead: messageReader.bytesRead,
+			bytesWritten: messageWriter.bytesWritten,
+			pendingBytes: messageWriter.pendingBytes
+		};
+	}
+
+	function startHeartbeat(): void {
+		if (!strategy || !strategy.heartbeat || !(strategy.heartbeat.interval > 0)) {
+			return;
+		}
+		let misses = strategy.heartbeat.misses !== void 0 ? strategy.heartbeat.misses : 3;
+		let sendPing = () => {
+			try {
+				connection.sendNotification(PingNotification.type);
+			} catch (error) {
+				// Write errors are reported through onError.
+			}
+		};
+		heartbeatTimer = setInterval(() => {
+			if (receivedSinceHeartbeat || !pongReceived) {
+				missedHeartbeats = 0;
+			} else {
+				missedHeartbeats++;
+				if (missedHeartbeats === misses) {
+					unresponsiveEmitter.fire(undefined);
+				}
+			}
+			receivedSinceHeartbeat = false;
+			sendPing();
+		}, strategy.heartbeat.interval);
+		// The heartbeat alone must not keep the process alive.
+		heartbeatTimer.unref();
+		sendPing();
+	}
+
+	function stopHeartbeat(): void {
+		if (heartbeatTimer !== void 0) {
+			clearInterval(heartbeatTimer);
+			heartbeatTimer = undefined;
+		}
+	}
+
+	function stopStatisticsTimer(): void {
+		if (statisticsTimer !== void 0) {
+			clearInterval(statisticsTimer);
+			statisticsTimer = undefined;
+		}
+	}
+
 	function throwIfClosedOrDisposed() {
 		if (isClosed()) {
 			throw new ConnectionError(ConnectionErrors.Closed, 'Connection is closed.');
@@ -937,29 +1800,71 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		}
 	}
 
+	function isTokenOrOptions(value: any): value is CancellationToken | AbortSignalLike | RequestOptions {
+		return CancellationToken.is(value) || AbortSignalLike.is(value) || RequestOptions.is(value);
+	}
+
+	function getProgressTokens(params: any): ProgressToken[] {
+		if (params === null || typeof params !== 'object' || Is.array(params)) {
+			return [];
+		}
+		return [params.partialResultToken, params.workDoneToken].filter(token => Is.string(token) || Is.number(token));
+	}
+
 	function computeMessageParams(type: MessageType, params: any[]): any | any[] | null {
-		let result: any | any[] | null;
 		let numberOfParams = type.numberOfParams;
-		switch (numberOfParams) {
-			case 0:
-				result = null;
-				break;
-			case 1:
-				result = undefinedToNull(params[0]);
-				break;
-			default:
-				result = [];
-				for (let i = 0; i < params.length && i < numberOfParams; i++) {
-					result.push(undefinedToNull(params[i]));
-				}
-				if (params.length < numberOfParams) {
-					for (let i = params.length; i < numberOfParams; i++) {
-						result.push(null);
-					}
+		if (numberOfParams === 0) {
+			return null;
+		}
+		let values: any[] = [];
+		for (let i = 0; i < numberOfParams; i++) {
+			values.push(i < params.length ? undefinedToNull(params[i]) : null);
+		}
+		return structureParams(type.method, type.parameterStructures || ParameterStructures.auto, values, type.parameterNames);
+	}
+
+	function structureParams(method: string, structures: ParameterStructures, values: any[], names: string[] | undefined): any | any[] | null {
+		if (values.length === 0) {
+			return null;
+		}
+		if (structures === ParameterStructures.byName) {
+			if (values.length === 1) {
+				let value = values[0];
+				if (value === null || typeof value !== 'object' || Is.array(value)) {
+					throw new Error(`Parameters of ${method} are sent by name but the parameter is not an object literal.`);
 				}
-				break;
+				return value;
+			}
+			if (names === void 0 || names.length !== values.length) {
+				throw new Error(`Parameters of ${method} are sent by name but their names are unknown.`);
+			}
+			let result: any = {};
+			names.forEach((name, index) => result[name] = values[index]);
+			return result;
+		} else if (structures === ParameterStructures.byPosition) {
+			return values;
+		} else {
+			return values.length === 1 ? values[0] : values;
 		}
-		return result;
+	}
+
+	function computeHandlerArguments(type: MessageType | undefined, params: any): any[] {
+		if (params === void 0 || (type !== void 0 && type.numberOfParams === 0)) {
+			return [];
+		}
+		if (type !== void 0 && type.numberOfParams > 1 && type.parameterNames !== void 0 && params !== null && typeof params === 'object' && !Is.array(params)) {
+			// Parameters received by name.
+			return type.parameterNames.map(name => params[name]);
+		}
+		if (Is.array(params)) {
+			if (type === void 0 || type.numberOfParams > 1) {
+				return params;
+			}
+			if (type.parameterStructures === ParameterStructures.byPosition) {
+				return [params[0]];
+			}
+		}
+		return [params];
 	}
 
 	let connection: MessageConnection = {
@@ -970,17 +1875,12 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 			let messageParams: any | any[] | null;
 			if (Is.string(type)) {
 				method = type;
-				switch (params.length) {
-					case 0:
-						messageParams = null;
-						break;
-					case 1:
-						messageParams = params[0];
-						break;
-					default:
-						messageParams = params;
-						break;
+				let structures = ParameterStructures.auto;
+				if (ParameterStructures.is(params[0])) {
+					structures = params[0];
+					params = params.slice(1);
 				}
+				messageParams = structureParams(method, structures, params, undefined);
 			} else {
 				method = type.method;
 				messageParams = computeMessageParams(type, params);
@@ -990,20 +1890,20 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 				method: method,
 				params: messageParams
 			};
+			statistics.notificationSent(method);
 			traceSendingNotification(notificationMessage);
-			messageWriter.write(notificationMessage);
+			writeMessage(notificationMessage);
 		},
-		onNotification: (type: string | MessageType | StarNotificationHandler, handler?: GenericNotificationHandler): void => {
+		onNotification: (type: string | MessageType | StarNotificationHandler, handler?: GenericNotificationHandler): Disposable => {
 			throwIfClosedOrDisposed();
 			if (Is.func(type)) {
-				starNotificationHandler = type as StarNotificationHandler;
+				return addHandler(starNotificationHandlers, type as StarNotificationHandler);
 			} else if (handler) {
-				if (Is.string(type)) {
-					notificationHandlers[type] = { type: undefined, handler };
-				} else {
-					notificationHandlers[type.method] = { type, handler };
-				}
+				let method = Is.string(type) ? type : type.method;
+				let elements = notificationHandlers[method] || (notificationHandlers[method] = []);
+				return addHandler(elements, { type: Is.string(type) ? undefined : type, handler });
 			}
+			return Disposable.create(() => {});
 		},
 		onProgress: <P>(_type: ProgressType<P>, token: string | number, handler: NotificationHandler<P>): Disposable => {
 			if (progressHandlers.has(token)) {
@@ -1016,51 +1916,92 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 				}
 			};
 		},
+		progressIterator: <P>(type: ProgressType<P>, token: ProgressToken): EventIterator<P> => {
+			if (progressEndEmitters.has(token)) {
+				throw new Error(`Progress iterator for token ${token} already created`);
+			}
+			let progress: Event<P> = (listener: (value: P) => any) => connection.onProgress(type, token, listener);
+			let end = new Emitter<void>({ onLastListenerRemove: () => progressEndEmitters.delete(token) });
+			progressEndEmitters.set(token, end);
+			return Event.toAsyncIterable(progress, end.event);
+		},
 		sendProgress: <P>(_type: ProgressType<P>, token: string | number, value: P): void => {
 			connection.sendNotification(ProgressNotification.type, { token, value });
 		},
 		onUnhandledProgress: unhandledProgressEmitter.event,
+		sendBatch: (batchCallback: (batch: MessageBatch) => void): void => {
+			throwIfClosedOrDisposed();
+			throwIfNotListening();
+			if (outgoingBatch) {
+				// Nested batches are merged into the outer one.
+				batchCallback(connection);
+				return;
+			}
+			let batch: BatchMessage = [];
+			outgoingBatch = batch;
+			try {
+				batchCallback(connection);
+			} catch (e) {
+				// The batch is never written. So we need to reject the requests issued so far.
+				rejectBatchedRequests(batch, e);
+				throw e;
+			} finally {
+				outgoingBatch = undefined;
+			}
+			if (batch.length === 0) {
+				return;
+			}
+			try {
+				writeBatch(batch);
+			} catch (e) {
+				// Writing the batch failed. So we need to reject all batched requests.
+				rejectBatchedRequests(batch, e);
+				throw e;
+			}
+		},
 		sendRequest: <R, E>(type: string | MessageType, ...params: any[]) => {
 			throwIfClosedOrDisposed();
 			throwIfNotListening();
 
 			let method: string;
 			let messageParams: object | object[] | null;
-			let token: CancellationToken | undefined = undefined;
+			let options: CancellationToken | AbortSignalLike | RequestOptions | undefined = undefined;
 			if (Is.string(type)) {
 				method = type;
-				switch (params.length) {
-					case 0:
-						messageParams = null;
-						break;
-					case 1:
-						// The cancellation token is optional so it can also be undefined.
-						if (CancellationToken.is(params[0])) {
-							messageParams = null;
-							token = params[0];
-						} else {
-							messageParams = undefinedToNull(params[0]);
-						}
-						break;
-					default:
-						const last = params.length - 1;
-						if (CancellationToken.is(params[last])) {
-							token = params[last];
-							if (params.length === 2) {
-								messageParams = undefinedToNull(params[0]);
-							} else {
-								messageParams = params.slice(0, last).map(value => undefinedToNull(value));
-							}
-						} else {
-							messageParams = params.map(value => undefinedToNull(value));
-						}
-						break;
+				let structures = ParameterStructures.auto;
+				if (ParameterStructures.is(params[0])) {
+					structures = params[0];
+					params = params.slice(1);
 				}
+				const last = params.length - 1;
+				if (last >= 0 && isTokenOrOptions(params[last])) {
+					options = params[last];
+					params = params.slice(0, last);
+				}
+				messageParams = structureParams(method, structures, params.map(value => undefinedToNull(value)), undefined);
 			} else {
 				method = type.method;
 				messageParams = computeMessageParams(type, params);
 				let numberOfParams = type.numberOfParams;
-				token = CancellationToken.is(params[numberOfParams]) ? params[numberOfParams] : undefined;
+				options = isTokenOrOptions(params[numberOfParams]) ? params[numberOfParams] : undefined;
+			}
+			let token: CancellationToken | AbortSignalLike | undefined;
+			let timeout: number | undefined = strategy ? strategy.requestTimeout : undefined;
+			if (RequestOptions.is(options)) {
+				token = options.token;
+				if (options.timeout !== void 0) {
+					timeout = options.timeout;
+				}
+			} else {
+				token = options;
+			}
+			// Released once the request settled since a signal or token might
+			// be shared by many requests.
+			let disposables: Disposable[] = [];
+			if (AbortSignalLike.is(token)) {
+				let source = new AbortSignalCancellationTokenSource(token);
+				disposables.push(source);
+				token = source.token;
 			}
 
 			let id = sequenceNumber++;
@@ -1072,37 +2013,62 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 					params: messageParams
 				};
 				let responsePromise: ResponsePromise | null = { method: method, timerStart: Date.now(), resolve, reject };
+				statistics.requestSent(method);
 				traceSendingRequest(requestMessage);
 				try {
-					messageWriter.write(requestMessage);
+					writeMessage(requestMessage);
 				} catch (e) {
 					// Writing the message failed. So we need to reject the promise.
 					responsePromise.reject(new ResponseError<void>(ErrorCodes.MessageWriteError, e.message ? e.message : 'Unknown reason'));
 					responsePromise = null;
 				}
 				if (responsePromise) {
-					responsePromises[String(id)] = responsePromise;
+					let key = String(id);
+					if (timeout !== void 0 && timeout > 0) {
+						const requestTimeout = timeout;
+						responsePromise.timeout = setTimeout(() => {
+							let toReject = responsePromises[key];
+							if (!toReject) {
+								return;
+							}
+							delete responsePromises[key];
+							traceRequestTimeout(requestMessage, requestTimeout);
+							if (!isClosed() && !isDisposed()) {
+								cancellationStrategy.sender.sendCancellation(connection, id);
+							}
+							toReject.reject(new ResponseError<void>(ErrorCodes.RequestTimeout, `Request ${method} (${id}) timed out after ${requestTimeout}ms.`));
+						}, requestTimeout);
+					}
+					responsePromises[key] = responsePromise;
 				}
 			});
 			if (token) {
-				token.onCancellationRequested(() => {
-					connection.sendNotification(CancelNotification.type, { id });
-				});
+				disposables.push(token.onCancellationRequested(() => {
+					cancellationStrategy.sender.sendCancellation(connection, id);
+				}));
+			}
+			if (disposables.length > 0) {
+				let release = () => disposables.forEach(disposable => disposable.dispose());
+				result.then(release, release);
+			}
+			let progressTokens = getProgressTokens(messageParams);
+			if (progressTokens.length > 0) {
+				let finish = () => progressTokens.forEach(endProgress);
+				result.then(finish, finish);
 			}
 			return result;
 		},
-		onRequest: <R, E>(type: string | MessageType | StarRequestHandler, handler?: GenericRequestHandler<R, E>): void => {
+		onRequest: <R, E>(type: string | MessageType | StarRequestHandler, handler?: GenericRequestHandler<R, E>): Disposable => {
 			throwIfClosedOrDisposed();
 
 			if (Is.func(type)) {
-				starRequestHandler = type as StarRequestHandler;
+				return addHandler(starRequestHandlers, type as StarRequestHandler);
 			} else if (handler) {
-				if (Is.string(type)) {
-					requestHandlers[type] = { type: undefined, handler };
-				} else {
-					requestHandlers[type.method] = { type, handler };
-				}
+				let method = Is.string(type) ? type : type.method;
+				let elements = requestHandlers[method] || (requestHandlers[method] = []);
+				return addHandler<RequestHandlerElement>(elements, { type: Is.string(type) ? undefined : type, handler });
 			}
+			return Disposable.create(() => {});
 		},
 		trace: (_value: Trace, _tracer: Tracer, sendNotificationOrTraceOptions?: boolean | TraceOptions) => {
 			let _sendNotification: boolean = false;
@@ -1140,11 +2106,27 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 			disposeEmitter.fire(undefined);
 			let error = new Error('Connection got disposed.');
 			Object.keys(responsePromises).forEach((key) => {
-				responsePromises[key].reject(error);
+				let responsePromise = responsePromises[key];
+				if (responsePromise.timeout) {
+					clearTimeout(responsePromise.timeout);
+				}
+				responsePromise.reject(error);
 			});
 			responsePromises = Object.create(null);
 			requestTokens = Object.create(null);
-			messageQueue = new LinkedMap<string, Message>();
+			responseBatches = Object.create(null);
+			messageQueues = [];
+			runningReads = 0;
+			runningWrite = false;
+			stopStatisticsTimer();
+			stopHeartbeat();
+			endAllProgress();
+			if (cancellationStrategy.sender.dispose) {
+				cancellationStrategy.sender.dispose();
+			}
+			if (cancellationStrategy.receiver.dispose) {
+				cancellationStrategy.receiver.dispose();
+			}
 			// Test for backwards compatibility
 			if (Is.func(messageWriter.dispose)) {
 				messageWriter.dispose();
@@ -1159,11 +2141,34 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 
 			state = ConnectionState.Listening;
 			messageReader.listen(callback);
+			startHeartbeat();
 		},
-		inspect: (): void => {
-			// eslint-disable-next-line no-console
-			console.log('inspect');
-		}
+		record: (recorder: Tracer): Disposable => {
+			recorders.push(recorder);
+			return {
+				dispose: () => {
+					let index = recorders.indexOf(recorder);
+					if (index !== -1) {
+						recorders.splice(index, 1);
+					}
+				}
+			};
+		},
+		addInterceptor: (interceptor: MessageInterceptor): Disposable => {
+			throwIfClosedOrDisposed();
+			interceptors.push(interceptor);
+			return {
+				dispose: () => {
+					let index = interceptors.indexOf(interceptor);
+					if (index !== -1) {
+						interceptors.splice(index, 1);
+					}
+				}
+			};
+		},
+		getStatistics: getStatistics,
+		onStatistics: statisticsEmitter.event,
+		onUnresponsive: unresponsiveEmitter.event
 	};
 
 	connection.onNotification(LogTraceNotification.type, (params) => {
@@ -1172,6 +2177,14 @@ function _createMessageConnection(messageReader: MessageReader, messageWriter: M
 		}
 		tracer.log(params.message, trace === Trace.Verbose ? params.verbose : undefined);
 	});
+	connection.onNotification(PingNotification.type, () => {
+		if (!isClosed() && !isDisposed()) {
+			connection.sendNotification(PongNotification.type);
+		}
+	});
+	connection.onNotification(PongNotification.type, () => {
+		pongReceived = true;
+	});
 	connection.onNotification(ProgressNotification.type, (params) => {
 		const handler = progressHandlers.get(params.token);
 		if (handler) {
@@ -1198,7 +2211,88 @@ export function createMessageConnection(input: MessageReader | NodeJS.ReadableSt
 	if (!logger) {
 		logger = NullLogger;
 	}
-	let reader = isMessageReader(input) ? input : new StreamMessageReader(input);
-	let writer = isMessageWriter(output) ? output : new StreamMessageWriter(output);
+	let codec = strategy && strategy.messageCodec;
+	let reader = isMessageReader(input) ? input : new StreamMessageReader(input, { codec });
+	let writer = isMessageWriter(output) ? output : new StreamMessageWriter(output, { codec });
 	return _createMessageConnection(reader, writer, logger, strategy);
+}
+
+export interface ConnectionPairOptions extends MemoryTransportOptions {
+	/**
+	 * The logger used by both connections. Defaults to the `NullLogger`.
+	 */
+	logger?: Logger;
+
+	/**
+	 * The strategy used by both connections.
+	 */
+	strategy?: ConnectionStrategy;
+}
+
+/**
+ * Creates two linked connections exchanging messages in memory. This is
+ * useful to test request handlers and their callers in process. The
+ * connections still need to be put into listening mode. Disposing one
+ * connection closes the other.
+ */
+export function createConnectionPair(options: ConnectionPairOptions = {}): [MessageConnection, MessageConnection] {
+	let logger = options.logger || NullLogger;
+	let [[reader1, writer1], [reader2, writer2]] = createMemoryTransports(options);
+	return [
+		_createMessageConnection(reader1, writer1, logger, options.strategy),
+		_createMessageConnection(reader2, writer2, logger, options.strategy)
+	];
+}
+
+export interface MessageConnectionListener extends Disposable {
+	/**
+	 * Fires with the connection of an accepted client. The connection still
+	 * needs to be put into listening mode. It is disposed once the client
+	 * disconnects.
+	 */
+	readonly onConnection: Event<MessageConnection>;
+
+	/**
+	 * Fires if the transport listener fails to accept clients. See
+	 * `TransportListener.onError`.
+	 */
+	readonly onError: Event<Error>;
+
+	/**
+	 * The connections of the currently connected clients.
+	 */
+	readonly connections: MessageConnection[];
+
+	/**
+	 * Stops accepting clients and disposes the connections of the
+	 * connected clients.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Creates a message connection for every client accepted by the given
+ * transport listener.
+ */
+export function createMessageConnectionListener(listener: TransportListener, logger?: Logger, strategy?: ConnectionStrategy): MessageConnectionListener {
+	let connectionEmitter = new Emitter<MessageConnection>();
+	let connections: Set<MessageConnection> = new Set();
+	let subscription = listener.onConnection(([reader, writer]) => {
+		let connection = _createMessageConnection(reader, writer, logger || NullLogger, strategy);
+		connections.add(connection);
+		connection.onClose(() => connection.dispose());
+		connection.onDispose(() => connections.delete(connection));
+		connectionEmitter.fire(connection);
+	});
+	return {
+		onConnection: connectionEmitter.event,
+		onError: listener.onError,
+		get connections() { return Array.from(connections); },
+		dispose: () => {
+			subscription.dispose();
+			listener.dispose();
+			Array.from(connections).forEach(connection => connection.dispose());
+			connectionEmitter.dispose();
+		}
+	};
 }
\ No newline at end of file
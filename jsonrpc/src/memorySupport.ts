@@ -0,0 +1,186 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Message, BatchMessage } from './messages';
+import { MessageReader, AbstractMessageReader, DataCallback } from './messageReader';
+import { MessageWriter, AbstractMessageWriter } from './messageWriter';
+
+export interface MemoryTransportOptions {
+	/**
+	 * The time in milliseconds it takes to deliver a message. Defaults to `0`
+	 * which delivers messages asynchronously without delay.
+	 */
+	latency?: number;
+
+	/**
+	 * The probability between `0` and `1` that a message gets lost.
+	 * Defaults to `0`.
+	 */
+	loss?: number;
+
+	/**
+	 * The probability between `0` and `1` that a message is delivered after
+	 * the message sent next. Defaults to `0`.
+	 */
+	reorder?: number;
+
+	/**
+	 * The random number generator deciding about loss and reordering.
+	 * Defaults to `Math.random`. Provide a seeded one for reproducible tests.
+	 */
+	random?: () => number;
+}
+
+/**
+ * Delivers the messages written on one side to the reader of the other side.
+ */
+class MemoryLink {
+
+	private callback: DataCallback | undefined;
+	private received: Message[];
+	// A message held back to be delivered after the next one.
+	private held: Message | undefined;
+
+	public constructor(private transport: MemoryTransport) {
+		this.received = [];
+	}
+
+	public listen(callback: DataCallback): void {
+		this.callback = callback;
+		let received = this.received;
+		this.received = [];
+		received.forEach(message => callback(message));
+	}
+
+	public send(message: Message | BatchMessage): void {
+		let options = this.transport.options;
+		let random = options.random || Math.random;
+		if (this.transport.closed || (options.loss && random() < options.loss)) {
+			return;
+		}
+		// Messages are copied as if they got serialized.
+		let copy: Message = JSON.parse(JSON.stringify(message));
+		if (this.held === undefined && options.reorder && random() < options.reorder) {
+			this.held = copy;
+			// Deliver it anyway if no other message follows soon.
+			setImmediate(() => this.releaseHeld());
+			return;
+		}
+		this.schedule(copy);
+		this.releaseHeld();
+	}
+
+	private releaseHeld(): void {
+		if (this.held !== undefined) {
+			let held = this.held;
+			this.held = undefined;
+			this.schedule(held);
+		}
+	}
+
+	private schedule(message: Message): void {
+		let latency = this.transport.options.latency;
+		if (latency && latency > 0) {
+			setTimeout(() => this.deliver(message), latency);
+		} else {
+			setImmediate(() => this.deliver(message));
+		}
+	}
+
+	private deliver(message: Message): void {
+		if (this.transport.closed) {
+			return;
+		}
+		if (this.callback) {
+			this.callback(message);
+		} else {
+			this.received.push(message);
+		}
+	}
+}
+
+class MemoryMessageReader extends AbstractMessageReader implements MessageReader {
+
+	public constructor(private transport: MemoryTransport, private link: MemoryLink) {
+		super();
+	}
+
+	public listen(callback: DataCallback): void {
+		this.link.listen(callback);
+	}
+
+	public dispose(): void {
+		this.transport.close();
+		super.dispose();
+	}
+
+	/**
+	 * @internal
+	 */
+	public close(): void {
+		this.fireClose();
+	}
+}
+
+class MemoryMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+	public constructor(private transport: MemoryTransport, private link: MemoryLink) {
+		super();
+	}
+
+	public write(msg: Message | BatchMessage): void {
+		this.link.send(msg);
+	}
+
+	public dispose(): void {
+		this.transport.close();
+		super.dispose();
+	}
+
+	/**
+	 * @internal
+	 */
+	public close(): void {
+		this.fireClose();
+	}
+}
+
+class MemoryTransport {
+
+	public closed: boolean;
+	private readers: MemoryMessageReader[];
+	private writers: MemoryMessageWriter[];
+
+	public constructor(public readonly options: MemoryTransportOptions) {
+		this.closed = false;
+		let links = [new MemoryLink(this), new MemoryLink(this)];
+		this.readers = [new MemoryMessageReader(this, links[0]), new MemoryMessageReader(this, links[1])];
+		this.writers = [new MemoryMessageWriter(this, links[1]), new MemoryMessageWriter(this, links[0])];
+	}
+
+	public side(index: number): [MessageReader, MessageWriter] {
+		return [this.readers[index], this.writers[index]];
+	}
+
+	public close(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.readers.forEach(reader => reader.close());
+		this.writers.forEach(writer => writer.close());
+	}
+}
+
+/**
+ * Creates two linked reader / writer pairs. Messages written by one side are
+ * read by the other side without any streams or framing. Disposing a reader
+ * or writer closes both sides.
+ */
+export function createMemoryTransports(options: MemoryTransportOptions = {}): [[MessageReader, MessageWriter], [MessageReader, MessageWriter]] {
+	let transport = new MemoryTransport(options);
+	return [transport.side(0), transport.side(1)];
+}
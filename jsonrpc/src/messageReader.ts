@@ -7,61 +7,78 @@
 import { Socket } from 'net';
 import { ChildProcess } from 'child_process';
 
-import { Message } from './messages';
+import { Message, BatchMessage, ResponseError, ErrorCodes } from './messages';
 import { Event, Emitter } from './events';
+import { ContentDecoder, ContentEncodings } from './encoding';
+import { MessageCodec, MessageCodecs } from './codec';
 import * as Is from './is';
 
-let DefaultSize: number = 8192;
 let CR: number = Buffer.from('\r', 'ascii')[0];
 let LF: number = Buffer.from('\n', 'ascii')[0];
+let HeaderSeparator: number[] = [CR, LF, CR, LF];
 let CRLF: string = '\r\n';
-
+// The maximal size in bytes of a message's header block.
+let MaxHeaderSize: number = 64 * 1024;
+
+/**
+ * Buffers the received chunks without copying them. The bytes of a header
+ * block or message body are only concatenated once they got received
+ * completely.
+ */
 class MessageBuffer {
 
 	private encoding: string;
-	private index: number;
-	private buffer: Buffer;
+	private chunks: Buffer[];
+	private length: number;
+	// The number of bytes already searched for the header separator and
+	// the number of separator bytes matched at their end.
+	private scanned: number;
+	private matched: number;
 
 	constructor(encoding: string = 'utf8') {
 		this.encoding = encoding;
-		this.index = 0;
-		this.buffer = Buffer.allocUnsafe(DefaultSize);
+		this.chunks = [];
+		this.length = 0;
+		this.scanned = 0;
+		this.matched = 0;
 	}
 
 	public append(chunk: Buffer | String): void {
-		var toAppend: Buffer = <Buffer>chunk;
-		if (typeof (chunk) === 'string') {
-			var str = <string>chunk;
-			var bufferLen = Buffer.byteLength(str, this.encoding);
-			toAppend = Buffer.allocUnsafe(bufferLen);
-			toAppend.write(str, 0, bufferLen, this.encoding);
-		}
-		if (this.buffer.length - this.index >= toAppend.length) {
-			toAppend.copy(this.buffer, this.index, 0, toAppend.length);
-		} else {
-			var newSize = (Math.ceil((this.index + toAppend.length) / DefaultSize) + 1) * DefaultSize;
-			if (this.index === 0) {
-				this.buffer = Buffer.allocUnsafe(newSize);
-				toAppend.copy(this.buffer, 0, 0, toAppend.length);
-			} else {
-				this.buffer = Buffer.concat([this.buffer.slice(0, this.index), toAppend], newSize);
-			}
+		let toAppend: Buffer = typeof (chunk) === 'string' ? Buffer.from(<string>chunk, this.encoding) : <Buffer>chunk;
+		if (toAppend.length === 0) {
+			return;
 		}
-		this.index += toAppend.length;
+		this.chunks.push(toAppend);
+		this.length += toAppend.length;
 	}
 
 	public tryReadHeaders(): { [key: string]: string; } | undefined {
 		let result: { [key: string]: string; } | undefined = undefined;
-		let current = 0;
-		while (current + 3 < this.index && (this.buffer[current] !== CR || this.buffer[current + 1] !== LF || this.buffer[current + 2] !== CR || this.buffer[current + 3] !== LF)) {
-			current++;
+		// Find the header / body separator (e.g CRLFCRLF) which might span chunks.
+		// The search continues after the bytes searched by the last call.
+		let offset = 0;
+		let end = -1;
+		outer: for (let chunk of this.chunks) {
+			for (let i = Math.max(this.scanned - offset, 0); i < chunk.length; i++) {
+				let value = chunk[i];
+				if (value === HeaderSeparator[this.matched]) {
+					this.matched++;
+					if (this.matched === HeaderSeparator.length) {
+						end = offset + i + 1;
+						break outer;
+					}
+				} else {
+					this.matched = value === CR ? 1 : 0;
+				}
+			}
+			offset += chunk.length;
 		}
-		// No header / body separator found (e.g CRLFCRLF)
-		if (current + 3 >= this.index) {
+		if (end === -1) {
+			this.scanned = this.length;
 			return result;
 		}
 		result = Object.create(null);
-		let headers = this.buffer.toString('ascii', 0, current).split(CRLF);
+		let headers = this.read(end).toString('ascii', 0, end - HeaderSeparator.length).split(CRLF);
 		headers.forEach((header) => {
 			let index: number = header.indexOf(':');
 			if (index === -1) {
@@ -71,31 +88,79 @@ class MessageBuffer {
 			let value = header.substr(index + 1).trim();
 			result![key] = value;
 		});
-
-		let nextStart = current + 4;
-		this.buffer = this.buffer.slice(nextStart);
-		this.index = this.index - nextStart;
 		return result;
 	}
 
-	public tryReadContent(length: number): string | null {
-		if (this.index < length) {
+	public tryReadContent(length: number): Buffer | null {
+		if (this.length < length) {
 			return null;
 		}
-		let result = this.buffer.toString(this.encoding, 0, length);
-		let nextStart = length;
-		this.buffer.copy(this.buffer, 0, nextStart);
-		this.index = this.index - nextStart;
-		return result;
+		return this.read(length);
+	}
+
+	/**
+	 * Drops up to `length` bytes and returns the number of bytes dropped.
+	 */
+	public skip(length: number): number {
+		let skipped = 0;
+		while (skipped < length && this.chunks.length > 0) {
+			let chunk = this.chunks[0];
+			let toSkip = Math.min(chunk.length, length - skipped);
+			if (toSkip === chunk.length) {
+				this.chunks.shift();
+			} else {
+				this.chunks[0] = chunk.slice(toSkip);
+			}
+			skipped += toSkip;
+		}
+		this.length -= skipped;
+		this.resetScan();
+		return skipped;
 	}
 
 	public get numberOfBytes(): number {
-		return this.index;
+		return this.length;
+	}
+
+	private read(length: number): Buffer {
+		let first = this.chunks[0];
+		let result: Buffer;
+		if (length === 0) {
+			return Buffer.alloc(0);
+		} else if (first.length === length) {
+			result = first;
+			this.chunks.shift();
+		} else if (first.length > length) {
+			result = first.slice(0, length);
+			this.chunks[0] = first.slice(length);
+		} else {
+			result = Buffer.allocUnsafe(length);
+			let offset = 0;
+			while (offset < length) {
+				let chunk = this.chunks[0];
+				let toCopy = Math.min(chunk.length, length - offset);
+				chunk.copy(result, offset, 0, toCopy);
+				if (toCopy === chunk.length) {
+					this.chunks.shift();
+				} else {
+					this.chunks[0] = chunk.slice(toCopy);
+				}
+				offset += toCopy;
+			}
+		}
+		this.length -= length;
+		this.resetScan();
+		return result;
+	}
+
+	private resetScan(): void {
+		this.scanned = 0;
+		this.matched = 0;
 	}
 }
 
 export interface DataCallback {
-	(data: Message): void;
+	(data: Message | BatchMessage): void;
 }
 
 export interface PartialMessageInfo {
@@ -107,6 +172,10 @@ export interface MessageReader {
 	readonly onError: Event<Error>;
 	readonly onClose: Event<void>;
 	readonly onPartialMessage: Event<PartialMessageInfo>;
+	/**
+	 * The number of bytes read so far if the reader tracks it.
+	 */
+	readonly bytesRead?: number;
 	listen(callback: DataCallback): void;
 	dispose(): void;
 }
@@ -170,23 +239,109 @@ export abstract class AbstractMessageReader {
 	}
 }
 
+export interface MessageReaderOptions {
+	/**
+	 * The charset used to decode the message content. Defaults to `utf8`.
+	 */
+	charset?: string;
+
+	/**
+	 * The decoders used for message bodies carrying a `Content-Encoding`
+	 * header. Their names are advertised to the other side using the
+	 * `Accept-Encoding` header if the reader is used together with a
+	 * stream or socket message writer in a connection. Messages using an
+	 * unknown encoding or failing to decode are skipped and reported as
+	 * errors.
+	 */
+	contentDecoders?: ContentDecoder[];
+
+	/**
+	 * An additional codec used to deserialize messages whose `Content-Type`
+	 * header matches the codec's content type. Messages without a
+	 * `Content-Type` header or using any other content type are read as JSON.
+	 * Messages which can't be decoded are skipped and an error using the code
+	 * `ErrorCodes.MessageReadError` is reported.
+	 */
+	codec?: MessageCodec;
+
+	/**
+	 * The maximal size in bytes of a message body. Larger messages are
+	 * skipped without buffering them and an error using the code
+	 * `ErrorCodes.MessageReadError` is reported. The limit applies to
+	 * the decoded body of compressed messages as well. Unlimited if omitted.
+	 */
+	maxMessageSize?: number;
+}
+
 export class StreamMessageReader extends AbstractMessageReader implements MessageReader {
 
 	private readable: NodeJS.ReadableStream;
 	private callback: DataCallback;
 	private buffer: MessageBuffer;
+	private charset: string;
+	private contentDecoders: Map<string, ContentDecoder>;
+	private codecs: Map<string, MessageCodec>;
+	private acceptEncodingEmitter: Emitter<string[]>;
 	private nextMessageLength: number;
+	private nextMessageEncoding: string | undefined;
+	private nextMessageCodec: MessageCodec;
+	private maxMessageSize: number | undefined;
+	// The number of bytes still to drop of a message exceeding the maximal size.
+	private bytesToSkip: number;
 	private messageToken: number;
 	private partialMessageTimer: NodeJS.Timer | undefined;
 	private _partialMessageTimeout: number;
+	private _bytesRead: number;
 
-	public constructor(readable: NodeJS.ReadableStream, encoding: string = 'utf8') {
+	public constructor(readable: NodeJS.ReadableStream, options: string | MessageReaderOptions = 'utf8') {
 		super();
+		if (Is.string(options)) {
+			options = { charset: options };
+		}
 		this.readable = readable;
-		this.buffer = new MessageBuffer(encoding);
+		this.charset = options.charset || 'utf8';
+		this.buffer = new MessageBuffer(this.charset);
+		this.maxMessageSize = options.maxMessageSize;
+		this.bytesToSkip = 0;
+		this._bytesRead = 0;
+		this.contentDecoders = new Map();
+		for (let decoder of options.contentDecoders || []) {
+			this.contentDecoders.set(decoder.name, decoder);
+		}
+		this.codecs = new Map();
+		this.codecs.set(MessageCodecs.json.contentType, MessageCodecs.json);
+		if (options.codec) {
+			this.codecs.set(options.codec.contentType.toLowerCase(), options.codec);
+		}
+		this.nextMessageCodec = MessageCodecs.json;
+		this.acceptEncodingEmitter = new Emitter<string[]>();
 		this._partialMessageTimeout = 10000;
 	}
 
+	public get bytesRead(): number {
+		return this._bytesRead;
+	}
+
+	/**
+	 * The content encodings this reader is able to decode.
+	 */
+	public get acceptEncoding(): string[] {
+		return Array.from(this.contentDecoders.keys());
+	}
+
+	/**
+	 * An event that fires when the other side advertises the content
+	 * encodings it accepts.
+	 */
+	public get onAcceptEncoding(): Event<string[]> {
+		return this.acceptEncodingEmitter.event;
+	}
+
+	public dispose(): void {
+		super.dispose();
+		this.acceptEncodingEmitter.dispose();
+	}
+
 	public set partialMessageTimeout(timeout: number) {
 		this._partialMessageTimeout = timeout;
 	}
@@ -208,36 +363,89 @@ export class StreamMessageReader extends AbstractMessageReader implements Messag
 	}
 
 	private onData(data: Buffer | String): void {
+		this._bytesRead += Is.string(data) ? Buffer.byteLength(data, this.charset) : (data as Buffer).length;
 		this.buffer.append(data);
 		while (true) {
+			if (this.bytesToSkip > 0) {
+				this.bytesToSkip -= this.buffer.skip(this.bytesToSkip);
+				if (this.bytesToSkip > 0) {
+					return;
+				}
+			}
 			if (this.nextMessageLength === -1) {
-				let headers = this.buffer.tryReadHeaders();
+				let headers: { [key: string]: string; } | undefined;
+				try {
+					headers = this.buffer.tryReadHeaders();
+				} catch (error) {
+					this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, error.message));
+					continue;
+				}
 				if (!headers) {
+					if (this.buffer.numberOfBytes > MaxHeaderSize) {
+						// Drop the bytes instead of buffering them without limit.
+						this.buffer.skip(this.buffer.numberOfBytes);
+						this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, `Message header exceeds the maximal header size of ${MaxHeaderSize} bytes.`));
+					}
 					return;
 				}
 				let contentLength = headers['Content-Length'];
 				if (!contentLength) {
-					throw new Error('Header must provide a Content-Length property.');
+					this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, 'Header must provide a Content-Length property.'));
+					continue;
 				}
 				let length = parseInt(contentLength);
 				if (isNaN(length)) {
-					throw new Error('Content-Length value must be a number.');
+					this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, 'Content-Length value must be a number.'));
+					continue;
+				}
+				if (this.maxMessageSize !== void 0 && length > this.maxMessageSize) {
+					this.bytesToSkip = length;
+					this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, `Message of ${length} bytes exceeds the maximal message size of ${this.maxMessageSize} bytes.`));
+					continue;
 				}
 				this.nextMessageLength = length;
+				this.nextMessageEncoding = headers['Content-Encoding'];
+				// Messages using a content type without a matching codec (e.g.
+				// `application/json`) are read as JSON.
+				let contentType = headers['Content-Type'];
+				let codec = contentType !== void 0 ? this.codecs.get(MessageCodecs.parseHeader(contentType)) : undefined;
+				this.nextMessageCodec = codec || MessageCodecs.json;
+				let acceptEncoding = headers['Accept-Encoding'];
+				if (acceptEncoding !== void 0) {
+					this.acceptEncodingEmitter.fire(ContentEncodings.parseHeader(acceptEncoding));
+				}
 				// Take the encoding form the header. For compatibility
 				// treat both utf-8 and utf8 as node utf8
 			}
-			var msg = this.buffer.tryReadContent(this.nextMessageLength);
-			if (msg === null) {
+			var content = this.buffer.tryReadContent(this.nextMessageLength);
+			if (content === null) {
 				/** We haven't received the full message yet. */
 				this.setPartialMessageTimer();
 				return;
 			}
 			this.clearPartialMessageTimer();
+			let contentEncoding = this.nextMessageEncoding;
 			this.nextMessageLength = -1;
+			this.nextMessageEncoding = undefined;
 			this.messageToken++;
-			var json = JSON.parse(msg);
-			this.callback(json);
+			let message: Message;
+			try {
+				if (contentEncoding !== void 0 && contentEncoding !== 'identity') {
+					let decoder = this.contentDecoders.get(contentEncoding);
+					if (!decoder) {
+						throw new Error(`Unsupported content encoding ${contentEncoding}.`);
+					}
+					content = decoder.decode(content, this.maxMessageSize);
+					if (this.maxMessageSize !== void 0 && content.length > this.maxMessageSize) {
+						throw new Error(`Decoded message of ${content.length} bytes exceeds the maximal message size of ${this.maxMessageSize} bytes.`);
+					}
+				}
+				message = this.nextMessageCodec.decode(content, this.charset);
+			} catch (error) {
+				this.fireError(new ResponseError<void>(ErrorCodes.MessageReadError, `Message could not be decoded: ${error.message}`));
+				continue;
+			}
+			this.callback(message);
 		}
 	}
 
@@ -280,8 +488,39 @@ export class IPCMessageReader extends AbstractMessageReader implements MessageRe
 	}
 }
 
+/**
+ * The subset of a `worker_threads` `MessagePort` or `Worker` used by the
+ * [MessagePortMessageReader](#MessagePortMessageReader) and the
+ * [MessagePortMessageWriter](#MessagePortMessageWriter).
+ */
+export interface MessagePortLike {
+	postMessage(value: any): void;
+	on(event: string, listener: (...args: any[]) => void): any;
+}
+
+export class MessagePortMessageReader extends AbstractMessageReader implements MessageReader {
+
+	private port: MessagePortLike;
+
+	public constructor(port: MessagePortLike) {
+		super();
+		this.port = port;
+		this.port.on('error', (error: any) => this.fireError(error));
+		// A message port emits `close` when either side closes it. A worker
+		// emits `exit` when its thread terminates.
+		this.port.on('close', () => this.fireClose());
+		this.port.on('exit', () => this.fireClose());
+	}
+
+	public listen(callback: DataCallback): void {
+		// Messages are transferred using the structured clone algorithm. So
+		// no framing or parsing is necessary.
+		this.port.on('message', callback);
+	}
+}
+
 export class SocketMessageReader extends StreamMessageReader {
-	public constructor(socket: Socket, encoding: string = 'utf-8') {
-		super(socket as NodeJS.ReadableStream, encoding);
+	public constructor(socket: Socket, options: string | MessageReaderOptions = 'utf-8') {
+		super(socket as NodeJS.ReadableStream, options);
 	}
 }
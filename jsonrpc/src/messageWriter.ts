@@ -7,17 +7,31 @@
 import { ChildProcess } from 'child_process';
 import { Socket } from 'net';
 
-import { Message } from './messages';
+import { Message, BatchMessage, NotificationMessage, isNotificationMessage } from './messages';
+import { MessagePortLike } from './messageReader';
 import { Event, Emitter } from './events';
+import { ContentEncoder } from './encoding';
+import { MessageCodec, MessageCodecs } from './codec';
 import * as Is from './is';
 
 let ContentLength: string = 'Content-Length: ';
+let ContentType: string = 'Content-Type: ';
+let ContentEncoding: string = 'Content-Encoding: ';
+let AcceptEncoding: string = 'Accept-Encoding: ';
 let CRLF = '\r\n';
 
 export interface MessageWriter {
 	readonly onError: Event<[Error, Message | undefined, number | undefined]>;
 	readonly onClose: Event<void>;
-	write(msg: Message): void;
+	/**
+	 * The number of bytes written so far if the writer tracks it.
+	 */
+	readonly bytesWritten?: number;
+	/**
+	 * The number of bytes waiting to be written if the writer tracks it.
+	 */
+	readonly pendingBytes?: number;
+	write(msg: Message | BatchMessage): void;
 	dispose(): void;
 }
 
@@ -48,8 +62,9 @@ export abstract class AbstractMessageWriter {
 		return this.errorEmitter.event;
 	}
 
-	protected fireError(error: any, message?: Message, count?: number): void {
-		this.errorEmitter.fire([this.asError(error), message, count]);
+	protected fireError(error: any, message?: Message | BatchMessage, count?: number): void {
+		// Errors writing a batch aren't reported for a single message.
+		this.errorEmitter.fire([this.asError(error), Is.array(message) ? undefined : message, count]);
 	}
 
 	public get onClose(): Event<void> {
@@ -69,46 +84,272 @@ export abstract class AbstractMessageWriter {
 	}
 }
 
+export interface MessageWriterOptions {
+	/**
+	 * The charset used to encode the message content. Defaults to `utf8`.
+	 */
+	charset?: string;
+
+	/**
+	 * The encoders that can be used to encode message bodies in order of
+	 * preference. A body is only encoded if the other side advertised that
+	 * it accepts the encoding. Otherwise the body is written as is.
+	 */
+	contentEncoders?: ContentEncoder[];
+
+	/**
+	 * The codec used to serialize messages. Defaults to JSON. If another
+	 * codec is used its content type is sent using the `Content-Type` header.
+	 */
+	codec?: MessageCodec;
+
+	/**
+	 * The number of pending bytes above which low priority notifications
+	 * are dropped or coalesced. Messages are pending while the underlying
+	 * stream waits to drain. If omitted no notification is dropped.
+	 */
+	highWaterMark?: number;
+
+	/**
+	 * Classifies low priority notifications. Returning `true` drops the
+	 * notification while the high-water mark is exceeded. Returning a key
+	 * replaces a pending notification with the same key instead.
+	 */
+	lowPriority?: (message: NotificationMessage) => boolean | string | undefined;
+
+	/**
+	 * The time in milliseconds after which an error is reported if the
+	 * underlying stream didn't drain. A stream is allowed to stall while
+	 * the other side is busy, so the check is disabled if omitted or zero.
+	 */
+	stallTimeout?: number;
+}
+
+interface PendingMessage {
+	message: Message | BatchMessage;
+	data: Buffer;
+	key: string | undefined;
+}
+
+/**
+ * Computes the header and the body of a message for writers using the
+ * `Content-Length` based framing.
+ */
+class MessageFraming {
+
+	private charset: string;
+	private codec: MessageCodec;
+	private contentEncoders: ContentEncoder[];
+	private contentEncoder: ContentEncoder | undefined;
+	private acceptEncoding: string[] | undefined;
+	private _bytesFramed: number;
+
+	constructor(options: string | MessageWriterOptions) {
+		if (Is.string(options)) {
+			options = { charset: options };
+		}
+		this.charset = options.charset || 'utf8';
+		this.codec = options.codec || MessageCodecs.json;
+		this.contentEncoders = options.contentEncoders || [];
+		this._bytesFramed = 0;
+	}
+
+	public get bytesFramed(): number {
+		return this._bytesFramed;
+	}
+
+	public setAcceptEncoding(names: string[]): void {
+		this.acceptEncoding = names.length > 0 ? names : undefined;
+	}
+
+	public setPeerAcceptEncoding(names: string[]): void {
+		this.contentEncoder = undefined;
+		for (let name of names) {
+			let encoder = this.contentEncoders.find(encoder => encoder.name === name);
+			if (encoder) {
+				this.contentEncoder = encoder;
+				break;
+			}
+		}
+	}
+
+	public frame(msg: Message | BatchMessage): [string, Buffer] {
+		let headers: string[] = [];
+		let body = this.codec.encode(msg, this.charset);
+		if (this.codec !== MessageCodecs.json) {
+			headers.push(ContentType, this.codec.contentType, CRLF);
+		}
+		if (this.contentEncoder) {
+			body = this.contentEncoder.encode(body);
+			headers.push(ContentEncoding, this.contentEncoder.name, CRLF);
+		}
+		if (this.acceptEncoding) {
+			// It is enough to advertise the accepted encodings once.
+			headers.push(AcceptEncoding, this.acceptEncoding.join(', '), CRLF);
+			this.acceptEncoding = undefined;
+		}
+		headers.unshift(ContentLength, body.length.toString(), CRLF);
+		headers.push(CRLF);
+		let header = headers.join('');
+		this._bytesFramed += header.length + body.length;
+		return [header, body];
+	}
+}
+
 export class StreamMessageWriter extends AbstractMessageWriter implements MessageWriter {
 
 	private writable: NodeJS.WritableStream;
-	private encoding: string;
+	private framing: MessageFraming;
 	private errorCount: number;
-
-	public constructor(writable: NodeJS.WritableStream, encoding: string = 'utf8') {
+	private highWaterMark: number | undefined;
+	private lowPriority: ((message: NotificationMessage) => boolean | string | undefined) | undefined;
+	private stallTimeout: number;
+	private stallTimer: NodeJS.Timer | undefined;
+	// Messages held back until the stream drains.
+	private queue: PendingMessage[];
+	private draining: boolean;
+	private _pendingBytes: number;
+	// The bytes handed to the stream since it last drained.
+	private unflushedBytes: number;
+	private _bytesWritten: number;
+
+	public constructor(writable: NodeJS.WritableStream, options: string | MessageWriterOptions = 'utf8') {
 		super();
+		if (Is.string(options)) {
+			options = { charset: options };
+		}
 		this.writable = writable;
-		this.encoding = encoding;
+		this.framing = new MessageFraming(options);
 		this.errorCount = 0;
+		this.highWaterMark = options.highWaterMark;
+		this.lowPriority = options.lowPriority;
+		this.stallTimeout = options.stallTimeout !== void 0 ? options.stallTimeout : 0;
+		this.queue = [];
+		this.draining = false;
+		this._pendingBytes = 0;
+		this.unflushedBytes = 0;
+		this._bytesWritten = 0;
 		this.writable.on('error', (error: any) => this.fireError(error));
 		this.writable.on('close', () => this.fireClose());
+		this.writable.on('drain', () => this.flush());
+	}
+
+	public dispose(): void {
+		super.dispose();
+		this.clearStallTimer();
+	}
+
+	/**
+	 * Sets the content encodings to advertise to the other side using the
+	 * `Accept-Encoding` header.
+	 */
+	public setAcceptEncoding(names: string[]): void {
+		this.framing.setAcceptEncoding(names);
+	}
+
+	/**
+	 * Selects the content encoding for subsequent messages from the encodings
+	 * accepted by the other side. Falls back to no encoding if none matches.
+	 */
+	public setPeerAcceptEncoding(names: string[]): void {
+		this.framing.setPeerAcceptEncoding(names);
 	}
 
-	public write(msg: Message): void {
-		let json = JSON.stringify(msg);
-		let contentLength = Buffer.byteLength(json, this.encoding);
+	public get bytesWritten(): number {
+		return this._bytesWritten;
+	}
 
-		let headers: string[] = [
-			ContentLength, contentLength.toString(), CRLF,
-			CRLF
-		];
+	public get pendingBytes(): number {
+		return this._pendingBytes;
+	}
+
+	public write(msg: Message | BatchMessage): void {
 		try {
-			// Header must be written in ASCII encoding
-			this.writable.write(headers.join(''), 'ascii');
-			// Now write the content. This can be written in any encoding
-			this.writable.write(json, this.encoding);
-			this.errorCount = 0;
+			let key: string | undefined;
+			if (this.draining && this.lowPriority && !Is.array(msg) && isNotificationMessage(msg)) {
+				let priority = this.lowPriority(msg);
+				let exceeded = this.highWaterMark !== void 0 && this._pendingBytes >= this.highWaterMark;
+				if (priority === true && exceeded) {
+					return;
+				}
+				if (Is.string(priority)) {
+					key = priority;
+					if (exceeded) {
+						this.removePending(key);
+					}
+				}
+			}
+			let [headers, body] = this.framing.frame(msg);
+			// Header must be written in ASCII encoding. Write header and body at once.
+			let pending: PendingMessage = { message: msg, data: Buffer.concat([Buffer.from(headers, 'ascii'), body]), key };
+			if (this.draining) {
+				this.queue.push(pending);
+				this._pendingBytes += pending.data.length;
+			} else {
+				this.doWrite(pending);
+			}
 		} catch (error) {
 			this.errorCount++;
 			this.fireError(error, msg, this.errorCount);
 		}
 	}
+
+	private doWrite(pending: PendingMessage): void {
+		this._bytesWritten += pending.data.length;
+		this.unflushedBytes += pending.data.length;
+		if (!this.writable.write(pending.data)) {
+			this.draining = true;
+			this.startStallTimer();
+		}
+		this.errorCount = 0;
+	}
+
+	private flush(): void {
+		this.draining = false;
+		this.unflushedBytes = 0;
+		this.clearStallTimer();
+		while (!this.draining && this.queue.length > 0) {
+			let pending = this.queue.shift()!;
+			this._pendingBytes -= pending.data.length;
+			try {
+				this.doWrite(pending);
+			} catch (error) {
+				this.errorCount++;
+				this.fireError(error, pending.message, this.errorCount);
+			}
+		}
+	}
+
+	private removePending(key: string): void {
+		let index = this.queue.findIndex(pending => pending.key === key);
+		if (index !== -1) {
+			this._pendingBytes -= this.queue[index].data.length;
+			this.queue.splice(index, 1);
+		}
+	}
+
+	private startStallTimer(): void {
+		if (this.stallTimeout <= 0 || this.stallTimer) {
+			return;
+		}
+		this.stallTimer = setTimeout(() => {
+			this.stallTimer = undefined;
+			this.fireError(new Error(`Writer stalled. The stream didn't drain for ${this.stallTimeout}ms with ${this.unflushedBytes + this._pendingBytes} bytes pending.`));
+		}, this.stallTimeout);
+	}
+
+	private clearStallTimer(): void {
+		if (this.stallTimer) {
+			clearTimeout(this.stallTimer);
+			this.stallTimer = undefined;
+		}
+	}
 }
 
 export class IPCMessageWriter extends AbstractMessageWriter implements MessageWriter {
 
 	private process: NodeJS.Process | ChildProcess;
-	private queue: Message[];
+	private queue: (Message | BatchMessage)[];
 	private sending: boolean;
 	private errorCount: number;
 
@@ -123,7 +364,7 @@ export class IPCMessageWriter extends AbstractMessageWriter implements MessageWr
 		eventEmitter.on('close', () => this.fireClose);
 	}
 
-	public write(msg: Message): void {
+	public write(msg: Message | BatchMessage): void {
 		if (!this.sending && this.queue.length === 0) {
 			// See https://github.com/nodejs/node/issues/7657
 			this.doWriteMessage(msg);
@@ -132,7 +373,7 @@ export class IPCMessageWriter extends AbstractMessageWriter implements MessageWr
 		}
 	}
 
-	public doWriteMessage(msg: Message): void {
+	public doWriteMessage(msg: Message | BatchMessage): void {
 		try {
 			if (this.process.send) {
 				this.sending = true;
@@ -157,20 +398,46 @@ export class IPCMessageWriter extends AbstractMessageWriter implements MessageWr
 	}
 }
 
+export class MessagePortMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+	private port: MessagePortLike;
+	private errorCount: number;
+
+	public constructor(port: MessagePortLike) {
+		super();
+		this.port = port;
+		this.errorCount = 0;
+		this.port.on('error', (error: any) => this.fireError(error));
+		this.port.on('close', () => this.fireClose());
+		this.port.on('exit', () => this.fireClose());
+	}
+
+	public write(msg: Message | BatchMessage): void {
+		try {
+			this.port.postMessage(msg);
+			this.errorCount = 0;
+		} catch (error) {
+			// postMessage throws if the message can't be cloned or the port is closed.
+			this.errorCount++;
+			this.fireError(error, msg, this.errorCount);
+		}
+	}
+}
+
 export class SocketMessageWriter extends AbstractMessageWriter implements MessageWriter {
 
 	private socket: Socket;
-	private queue: Message[];
+	private queue: (Message | BatchMessage)[];
 	private sending: boolean;
-	private encoding: string;
+	private framing: MessageFraming;
 	private errorCount: number;
 
-	public constructor(socket: Socket, encoding: string = 'utf8') {
+	public constructor(socket: Socket, options: string | MessageWriterOptions = 'utf8') {
 		super();
 		this.socket = socket;
 		this.queue = [];
 		this.sending = false;
-		this.encoding = encoding;
+		this.framing = new MessageFraming(options);
 		this.errorCount = 0;
 		this.socket.on('error', (error: any) => this.fireError(error));
 		this.socket.on('close', () => this.fireClose());
@@ -181,7 +448,27 @@ export class SocketMessageWriter extends AbstractMessageWriter implements Messag
 		this.socket.destroy();
 	}
 
-	public write(msg: Message): void {
+	/**
+	 * Sets the content encodings to advertise to the other side using the
+	 * `Accept-Encoding` header.
+	 */
+	public setAcceptEncoding(names: string[]): void {
+		this.framing.setAcceptEncoding(names);
+	}
+
+	/**
+	 * Selects the content encoding for subsequent messages from the encodings
+	 * accepted by the other side. Falls back to no encoding if none matches.
+	 */
+	public setPeerAcceptEncoding(names: string[]): void {
+		this.framing.setPeerAcceptEncoding(names);
+	}
+
+	public get bytesWritten(): number {
+		return this.framing.bytesFramed;
+	}
+
+	public write(msg: Message | BatchMessage): void {
 		if (!this.sending && this.queue.length === 0) {
 			// See https://github.com/nodejs/node/issues/7657
 			this.doWriteMessage(msg);
@@ -190,24 +477,18 @@ export class SocketMessageWriter extends AbstractMessageWriter implements Messag
 		}
 	}
 
-	public doWriteMessage(msg: Message): void {
-		let json = JSON.stringify(msg);
-		let contentLength = Buffer.byteLength(json, this.encoding);
-
-		let headers: string[] = [
-			ContentLength, contentLength.toString(), CRLF,
-			CRLF
-		];
+	public doWriteMessage(msg: Message | BatchMessage): void {
 		try {
+			let [headers, body] = this.framing.frame(msg);
 			// Header must be written in ASCII encoding
 			this.sending = true;
-			this.socket.write(headers.join(''), 'ascii', (error: any) => {
+			this.socket.write(headers, 'ascii', (error: any) => {
 				if (error) {
 					this.handleError(error, msg);
 				}
 				try {
-					// Now write the content. This can be written in any encoding
-					this.socket.write(json, this.encoding, (error: any) => {
+					// Now write the content. It is already serialized using the writer's codec.
+					this.socket.write(body, (error: any) => {
 						this.sending = false;
 						if (error) {
 							this.handleError(error, msg);
@@ -227,7 +508,7 @@ export class SocketMessageWriter extends AbstractMessageWriter implements Messag
 		}
 	}
 
-	private handleError(error: any, msg: Message): void {
+	private handleError(error: any, msg: Message | BatchMessage): void {
 		this.errorCount++;
 		this.fireError(error, msg, this.errorCount);
 	}
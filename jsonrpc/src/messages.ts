@@ -13,6 +13,11 @@ export interface Message {
 	jsonrpc: string;
 }
 
+/**
+ * A batch of requests, notifications or responses sent as one JSON array.
+ */
+export type BatchMessage = Message[];
+
 /**
  * Request message
  */
@@ -56,6 +61,7 @@ export namespace ErrorCodes {
 	// Defined by VSCode library.
 	export const MessageWriteError: number = 1;
 	export const MessageReadError: number = 2;
+	export const RequestTimeout: number = 3;
 }
 
 export interface ResponseErrorLiteral<D> {
@@ -131,7 +137,8 @@ export type LSPMessageType =
 	| 'send-response'
 	| 'receive-response'
 	| 'send-notification'
-	| 'receive-notification';
+	| 'receive-notification'
+	| 'request-timeout';
 
 export interface LSPLogMessage {
 	type: LSPMessageType;
@@ -139,19 +146,68 @@ export interface LSPLogMessage {
 	timestamp: number;
 }
 
+/**
+ * Validates the parameters of a received message. Returns a description
+ * of the problem if the parameters are invalid and `undefined` otherwise.
+ */
+export interface ParamsValidator {
+	(params: any): string | undefined;
+}
+
+/**
+ * Controls how the parameters of a message are structured on the wire.
+ */
+export class ParameterStructures {
+	/**
+	 * A single parameter is sent as is and several parameters are sent
+	 * as an array.
+	 */
+	public static readonly auto = new ParameterStructures('auto');
+
+	/**
+	 * The parameters are always sent as an array.
+	 */
+	public static readonly byPosition = new ParameterStructures('byPosition');
+
+	/**
+	 * The parameters are sent as an object. A single parameter must be an
+	 * object literal. Several parameters are keyed by the parameter names
+	 * of the message type.
+	 */
+	public static readonly byName = new ParameterStructures('byName');
+
+	private constructor(private readonly kind: string) {
+	}
+
+	public static is(value: any): value is ParameterStructures {
+		return value === ParameterStructures.auto || value === ParameterStructures.byPosition || value === ParameterStructures.byName;
+	}
+
+	public toString(): string {
+		return this.kind;
+	}
+}
+
 /**
  * An interface to type messages.
  */
 export interface MessageType {
 	readonly method: string;
 	readonly numberOfParams: number;
+	readonly validator?: ParamsValidator;
+	readonly parameterStructures?: ParameterStructures;
+	readonly parameterNames?: string[];
 }
 
 /**
  * An abstract implementation of a MessageType.
  */
 export abstract class AbstractMessageType implements MessageType {
-	constructor(private _method: string, private _numberOfParams: number) {
+	constructor(private _method: string, private _numberOfParams: number, private _validator?: ParamsValidator,
+		private _parameterStructures: ParameterStructures = ParameterStructures.auto, private _parameterNames?: string[]) {
+		if (_parameterStructures === ParameterStructures.byName && _numberOfParams > 1 && (!_parameterNames || _parameterNames.length !== _numberOfParams)) {
+			throw new Error(`Message type ${_method} sends its parameters by name but doesn't provide a name for each of its ${_numberOfParams} parameters.`);
+		}
 	}
 
 	get method(): string {
@@ -161,6 +217,18 @@ export abstract class AbstractMessageType implements MessageType {
 	get numberOfParams(): number {
 		return this._numberOfParams;
 	}
+
+	get validator(): ParamsValidator | undefined {
+		return this._validator;
+	}
+
+	get parameterStructures(): ParameterStructures {
+		return this._parameterStructures;
+	}
+
+	get parameterNames(): string[] | undefined {
+		return this._parameterNames;
+	}
 }
 
 /**
@@ -183,8 +251,8 @@ export class RequestType0<R, E, RO> extends AbstractMessageType {
 
 export class RequestType<P, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 1);
+	constructor(method: string, validator?: ParamsValidator, parameterStructures?: ParameterStructures) {
+		super(method, 1, validator, parameterStructures);
 		this._ = undefined;
 	}
 }
@@ -192,72 +260,72 @@ export class RequestType<P, R, E, RO> extends AbstractMessageType {
 
 export class RequestType1<P1, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 1);
+	constructor(method: string, parameterStructures?: ParameterStructures) {
+		super(method, 1, undefined, parameterStructures);
 		this._ = undefined;
 	}
 }
 
 export class RequestType2<P1, P2, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 2);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 2, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType3<P1, P2, P3, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 3);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 3, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType4<P1, P2, P3, P4, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 4);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 4, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType5<P1, P2, P3, P4, P5, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 5);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 5, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType6<P1, P2, P3, P4, P5, P6, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 6);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 6, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType7<P1, P2, P3, P4, P5, P6, P7, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 7);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 7, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType8<P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, P8, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 8);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 8, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class RequestType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, P8, P9, R, E, RO, _EM];
-	constructor(method: string) {
-		super(method, 9);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 9, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
@@ -279,8 +347,8 @@ export interface NotificationMessage extends Message {
 
 export class NotificationType<P, RO> extends AbstractMessageType {
 	public readonly _?: [P, RO, _EM];
-	constructor(method: string) {
-		super(method, 1);
+	constructor(method: string, validator?: ParamsValidator, parameterStructures?: ParameterStructures) {
+		super(method, 1, validator, parameterStructures);
 		this._ = undefined;
 	}
 }
@@ -295,72 +363,72 @@ export class NotificationType0<RO> extends AbstractMessageType {
 
 export class NotificationType1<P1, RO> extends AbstractMessageType {
 	public readonly _?: [P1, RO, _EM];
-	constructor(method: string) {
-		super(method, 1);
+	constructor(method: string, parameterStructures?: ParameterStructures) {
+		super(method, 1, undefined, parameterStructures);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType2<P1, P2, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, RO, _EM];
-	constructor(method: string) {
-		super(method, 2);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 2, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType3<P1, P2, P3, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, RO, _EM];
-	constructor(method: string) {
-		super(method, 3);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 3, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType4<P1, P2, P3, P4, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, RO, _EM];
-	constructor(method: string) {
-		super(method, 4);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 4, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType5<P1, P2, P3, P4, P5, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, RO, _EM];
-	constructor(method: string) {
-		super(method, 5);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 5, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType6<P1, P2, P3, P4, P5, P6, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, RO, _EM];
-	constructor(method: string) {
-		super(method, 6);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 6, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType7<P1, P2, P3, P4, P5, P6, P7, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, RO, _EM];
-	constructor(method: string) {
-		super(method, 7);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 7, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType8<P1, P2, P3, P4, P5, P6, P7, P8, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, P8, RO, _EM];
-	constructor(method: string) {
-		super(method, 8);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 8, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
 
 export class NotificationType9<P1, P2, P3, P4, P5, P6, P7, P8, P9, RO> extends AbstractMessageType {
 	public readonly _?: [P1, P2, P3, P4, P5, P6, P7, P8, P9, RO, _EM];
-	constructor(method: string) {
-		super(method, 9);
+	constructor(method: string, parameterStructures?: ParameterStructures, parameterNames?: string[]) {
+		super(method, 9, undefined, parameterStructures, parameterNames);
 		this._ = undefined;
 	}
 }
@@ -0,0 +1,327 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Message, BatchMessage } from './messages';
+import { MessageReader, AbstractMessageReader, DataCallback } from './messageReader';
+import { MessageWriter, AbstractMessageWriter } from './messageWriter';
+import { Emitter, Disposable } from './events';
+import * as Is from './is';
+
+/**
+ * The envelope written to the underlying writer. It either carries a
+ * message of a channel or tells the other side that a channel got closed.
+ * A close is answered with a close once the channel got closed.
+ */
+interface ChannelMessage extends Message {
+	channel: string;
+	message?: Message | BatchMessage;
+	close?: boolean;
+}
+
+function isChannelMessage(value: any): value is ChannelMessage {
+	return value && Is.string(value.channel);
+}
+
+export interface MultiplexerOptions {
+	/**
+	 * The maximal number of messages written to the underlying writer
+	 * before other work gets a chance to run. Defaults to 64.
+	 */
+	maxMessagesPerTick?: number;
+
+	/**
+	 * The maximal number of messages buffered for channels not opened yet,
+	 * summed up over all channels. Further messages for unopened channels
+	 * are dropped and an error is reported on the open channels. Defaults
+	 * to 1000.
+	 */
+	maxUnopenedMessages?: number;
+}
+
+class Channel {
+
+	public outgoing: ChannelMessage[];
+	public callback: DataCallback | undefined;
+	public incoming: (Message | BatchMessage)[];
+	public closed: boolean;
+
+	public errorEmitter: Emitter<Error>;
+	public closeEmitter: Emitter<void>;
+
+	public constructor(public readonly id: string, private multiplexer: MessageMultiplexer) {
+		this.outgoing = [];
+		this.incoming = [];
+		this.closed = false;
+		this.errorEmitter = new Emitter<Error>();
+		this.closeEmitter = new Emitter<void>();
+	}
+
+	public listen(callback: DataCallback): void {
+		this.callback = callback;
+		let incoming = this.incoming;
+		this.incoming = [];
+		incoming.forEach(message => callback(message));
+	}
+
+	public deliver(message: Message | BatchMessage): void {
+		if (this.callback) {
+			this.callback(message);
+		} else {
+			this.incoming.push(message);
+		}
+	}
+
+	public write(message: Message | BatchMessage): void {
+		if (!this.closed) {
+			this.multiplexer.enqueue(this, { jsonrpc: '2.0', channel: this.id, message });
+		}
+	}
+
+	public close(): void {
+		this.multiplexer.closeChannel(this, true);
+	}
+}
+
+class ChannelMessageReader extends AbstractMessageReader implements MessageReader {
+
+	private disposables: Disposable[];
+
+	public constructor(private channel: Channel) {
+		super();
+		this.disposables = [
+			channel.errorEmitter.event(error => this.fireError(error)),
+			channel.closeEmitter.event(() => this.fireClose())
+		];
+	}
+
+	public listen(callback: DataCallback): void {
+		this.channel.listen(callback);
+	}
+
+	public dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		super.dispose();
+		this.channel.close();
+	}
+}
+
+class ChannelMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+	private disposables: Disposable[];
+
+	public constructor(private channel: Channel) {
+		super();
+		this.disposables = [
+			channel.errorEmitter.event(error => this.fireError(error)),
+			channel.closeEmitter.event(() => this.fireClose())
+		];
+	}
+
+	public write(msg: Message | BatchMessage): void {
+		this.channel.write(msg);
+	}
+
+	public dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		super.dispose();
+		this.channel.close();
+	}
+}
+
+/**
+ * Multiplexes independent channels over one reader / writer pair. Both
+ * sides open a channel using the same id. Every channel provides its own
+ * reader and writer which can be used to create a message connection.
+ *
+ * Messages of different channels are written in a round robin fashion so
+ * that a channel sending many messages doesn't delay the messages of the
+ * other channels.
+ */
+export class MessageMultiplexer implements Disposable {
+
+	private channels: Map<string, Channel>;
+	// Messages received for channels not opened yet.
+	private unopened: Map<string, (Message | BatchMessage)[]>;
+	private unopenedCount: number;
+	private maxUnopenedMessages: number;
+	// The number of closes per channel sent by this side which the other
+	// side hasn't acknowledged yet. Messages received for these channels
+	// were sent before the other side saw the close and are dropped.
+	private unacknowledgedCloses: Map<string, number>;
+	// The channels with outgoing messages in the order they get served.
+	private writing: Set<Channel>;
+	private scheduled: boolean;
+	private maxMessagesPerTick: number;
+	private disposed: boolean;
+	private disposables: Disposable[];
+
+	public constructor(private reader: MessageReader, private writer: MessageWriter, options: MultiplexerOptions = {}) {
+		this.channels = new Map();
+		this.unopened = new Map();
+		this.unopenedCount = 0;
+		this.maxUnopenedMessages = options.maxUnopenedMessages !== void 0 ? options.maxUnopenedMessages : 1000;
+		this.unacknowledgedCloses = new Map();
+		this.writing = new Set();
+		this.scheduled = false;
+		this.maxMessagesPerTick = options.maxMessagesPerTick !== void 0 ? options.maxMessagesPerTick : 64;
+		this.disposed = false;
+		this.disposables = [
+			reader.onError(error => this.channels.forEach(channel => channel.errorEmitter.fire(error))),
+			reader.onClose(() => this.closeAll()),
+			writer.onError(([error]) => this.channels.forEach(channel => channel.errorEmitter.fire(error))),
+			writer.onClose(() => this.closeAll())
+		];
+		reader.listen(data => this.handleMessage(data));
+	}
+
+	/**
+	 * Opens the channel with the given id. Messages received for the channel
+	 * before it got opened are delivered once its reader listens.
+	 */
+	public openChannel(id: string): [MessageReader, MessageWriter] {
+		if (this.disposed) {
+			throw new Error('Multiplexer is disposed.');
+		}
+		if (this.channels.has(id)) {
+			throw new Error(`Channel ${id} is already open.`);
+		}
+		let channel = new Channel(id, this);
+		this.channels.set(id, channel);
+		let received = this.unopened.get(id);
+		if (received) {
+			this.unopened.delete(id);
+			this.unopenedCount -= received.length;
+			received.forEach(message => channel.deliver(message));
+		}
+		return [new ChannelMessageReader(channel), new ChannelMessageWriter(channel)];
+	}
+
+	public dispose(): void {
+		if (this.disposed) {
+			return;
+		}
+		this.flush();
+		this.closeAll();
+		this.disposed = true;
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.reader.dispose();
+		this.writer.dispose();
+	}
+
+	/**
+	 * @internal
+	 */
+	public enqueue(channel: Channel, message: ChannelMessage): void {
+		channel.outgoing.push(message);
+		this.writing.add(channel);
+		if (!this.scheduled) {
+			this.scheduled = true;
+			setImmediate(() => this.flush());
+		}
+	}
+
+	/**
+	 * @internal
+	 */
+	public closeChannel(channel: Channel, notify: boolean): void {
+		if (channel.closed) {
+			return;
+		}
+		if (notify && !this.disposed) {
+			// Queue the close after the channel's messages.
+			this.enqueue(channel, { jsonrpc: '2.0', channel: channel.id, close: true });
+			this.unacknowledgedCloses.set(channel.id, (this.unacknowledgedCloses.get(channel.id) || 0) + 1);
+		} else {
+			this.writing.delete(channel);
+		}
+		channel.closed = true;
+		this.channels.delete(channel.id);
+		channel.closeEmitter.fire(undefined);
+	}
+
+	private handleMessage(data: Message | BatchMessage): void {
+		if (!isChannelMessage(data)) {
+			return;
+		}
+		let channel = this.channels.get(data.channel);
+		let unacknowledged = this.unacknowledgedCloses.get(data.channel);
+		if (data.close) {
+			if (unacknowledged !== void 0) {
+				// Either the acknowledgement of our close or the other side
+				// closed the channel at the same time. Both end the channel.
+				if (unacknowledged > 1) {
+					this.unacknowledgedCloses.set(data.channel, unacknowledged - 1);
+				} else {
+					this.unacknowledgedCloses.delete(data.channel);
+				}
+				return;
+			}
+			if (channel) {
+				this.closeChannel(channel, false);
+			} else {
+				this.dropUnopened(data.channel);
+			}
+			// Acknowledge the close so that the other side can tell the
+			// messages of a reopened channel from outdated ones.
+			if (!this.disposed) {
+				let acknowledgement: ChannelMessage = { jsonrpc: '2.0', channel: data.channel, close: true };
+				this.writer.write(acknowledgement);
+			}
+		} else if (data.message !== void 0) {
+			if (unacknowledged !== void 0) {
+				// The other side sent the message before it received the close.
+				return;
+			} else if (channel) {
+				channel.deliver(data.message);
+			} else if (this.unopenedCount >= this.maxUnopenedMessages) {
+				let error = new Error(`Dropped message for unopened channel ${data.channel}. More than ${this.maxUnopenedMessages} messages are buffered for unopened channels.`);
+				this.channels.forEach(channel => channel.errorEmitter.fire(error));
+			} else {
+				let received = this.unopened.get(data.channel);
+				if (!received) {
+					received = [];
+					this.unopened.set(data.channel, received);
+				}
+				received.push(data.message);
+				this.unopenedCount++;
+			}
+		}
+	}
+
+	private dropUnopened(id: string): void {
+		let received = this.unopened.get(id);
+		if (received) {
+			this.unopened.delete(id);
+			this.unopenedCount -= received.length;
+		}
+	}
+
+	private flush(): void {
+		this.scheduled = false;
+		if (this.disposed) {
+			return;
+		}
+		let written = 0;
+		while (written < this.maxMessagesPerTick && this.writing.size > 0) {
+			// Serve one message of the first channel and move it to the end.
+			let channel: Channel = this.writing.values().next().value;
+			this.writing.delete(channel);
+			this.writer.write(channel.outgoing.shift()!);
+			if (channel.outgoing.length > 0) {
+				this.writing.add(channel);
+			}
+			written++;
+		}
+		if (this.writing.size > 0) {
+			this.scheduled = true;
+			setImmediate(() => this.flush());
+		}
+	}
+
+	private closeAll(): void {
+		this.channels.forEach(channel => this.closeChannel(channel, false));
+	}
+}
@@ -10,8 +10,9 @@ import { randomBytes } from 'crypto';
 
 import { Server, Socket, createServer, createConnection } from 'net';
 
-import { MessageReader, SocketMessageReader } from './messageReader';
-import { MessageWriter, SocketMessageWriter } from './messageWriter';
+import { MessageReader, SocketMessageReader, MessageReaderOptions } from './messageReader';
+import { MessageWriter, SocketMessageWriter, MessageWriterOptions } from './messageWriter';
+import { TransportListener, createTransportListener } from './transportListener';
 
 export function generateRandomPipeName(): string {
 	const randomSuffix = randomBytes(21).toString('hex');
@@ -27,7 +28,7 @@ export interface PipeTransport {
 	onConnected(): Thenable<[MessageReader, MessageWriter]>;
 }
 
-export function createClientPipeTransport(pipeName: string, encoding: string = 'utf-8'): Thenable<PipeTransport> {
+export function createClientPipeTransport(pipeName: string, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): Thenable<PipeTransport> {
 	let connectResolve: any;
 	let connected = new Promise<[MessageReader, MessageWriter]>((resolve, _reject) => {
 		connectResolve = resolve;
@@ -36,8 +37,8 @@ export function createClientPipeTransport(pipeName: string, encoding: string = '
 		let server: Server = createServer((socket: Socket) => {
 			server.close();
 			connectResolve([
-				new SocketMessageReader(socket, encoding),
-				new SocketMessageWriter(socket, encoding)
+				new SocketMessageReader(socket, options),
+				new SocketMessageWriter(socket, options)
 			]);
 		});
 		server.on('error', reject);
@@ -50,10 +51,19 @@ export function createClientPipeTransport(pipeName: string, encoding: string = '
 	});
 }
 
-export function createServerPipeTransport(pipeName: string, encoding: string = 'utf-8'): [MessageReader, MessageWriter] {
+export function createServerPipeTransport(pipeName: string, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): [MessageReader, MessageWriter] {
 	const socket: Socket = createConnection(pipeName);
 	return [
-		new SocketMessageReader(socket, encoding),
-		new SocketMessageWriter(socket, encoding)
+		new SocketMessageReader(socket, options),
+		new SocketMessageWriter(socket, options)
 	];
+}
+
+/**
+ * Listens on the given pipe for any number of clients. Use it for a server
+ * shared by several clients instead of connecting to a single client.
+ */
+export function createPipeListener(pipeName: string, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): Thenable<TransportListener> {
+	let server: Server = createServer();
+	return createTransportListener(server, (callback) => server.listen(pipeName, callback), options);
 }
\ No newline at end of file
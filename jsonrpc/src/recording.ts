@@ -0,0 +1,219 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as fs from 'fs';
+
+import {
+	Message, RequestMessage, ResponseMessage, isRequestMessage, isResponseMessage, ErrorCodes, LSPLogMessage
+} from './messages';
+import { MessageReader } from './messageReader';
+import { MessageWriter } from './messageWriter';
+import * as Is from './is';
+
+/**
+ * A tracer writing the messages logged in the `TraceFormat.JSON` format
+ * to a file. Every message is written as one line of JSON (JSONL) holding
+ * the message, its direction and a timestamp.
+ */
+export class SessionRecorder {
+
+	private fd: number | undefined;
+
+	public constructor(file: string) {
+		this.fd = fs.openSync(file, 'w');
+	}
+
+	public log(dataObject: any): void;
+	public log(message: string, data?: string): void;
+	public log(dataObject: any, _data?: string): void {
+		// Text traces can't be replayed so they aren't recorded.
+		if (this.fd === undefined || Is.string(dataObject) || !dataObject || !dataObject.isLSPMessage) {
+			return;
+		}
+		// Write synchronously to not lose messages if the process crashes.
+		fs.writeSync(this.fd, JSON.stringify(dataObject) + '\n');
+	}
+
+	public dispose(): void {
+		if (this.fd !== undefined) {
+			fs.closeSync(this.fd);
+			this.fd = undefined;
+		}
+	}
+}
+
+/**
+ * Reads a session recorded using a [SessionRecorder](#SessionRecorder).
+ */
+export function readSession(file: string): LSPLogMessage[] {
+	return fs.readFileSync(file, 'utf8').split(/\r?\n/).filter(line => line.trim().length > 0).map(line => JSON.parse(line));
+}
+
+export interface ReplayOptions {
+	/**
+	 * The side of the connection the session got recorded on. If omitted
+	 * it is derived from the first message: the client sends the first message.
+	 */
+	recordedOn?: 'client' | 'server';
+
+	/**
+	 * The time in milliseconds to wait for a response. Defaults to 5000.
+	 */
+	timeout?: number;
+}
+
+export interface ResponseDifference {
+	/**
+	 * The request sent to the server.
+	 */
+	request: RequestMessage;
+
+	/**
+	 * The response as recorded.
+	 */
+	expected: ResponseMessage;
+
+	/**
+	 * The response the server sent during the replay or `undefined` if
+	 * the server didn't answer in time.
+	 */
+	actual: ResponseMessage | undefined;
+}
+
+export interface ReplayResult {
+	/**
+	 * The number of requests replayed.
+	 */
+	requests: number;
+
+	/**
+	 * The requests whose responses differ from the recording.
+	 */
+	differences: ResponseDifference[];
+}
+
+/**
+ * Replays the client side of a recorded session against a server and diffs
+ * the server's responses against the recorded ones. Client messages are sent
+ * in the recorded order. Before a message is sent the responses which were
+ * received before it in the recording are awaited. Requests from the server
+ * are answered using the recorded client responses.
+ *
+ * @param session The recorded session.
+ * @param reader A reader reading the messages sent by the server.
+ * @param writer A writer writing messages to the server.
+ * @param options Options controlling the replay.
+ */
+export function replaySession(session: LSPLogMessage[], reader: MessageReader, writer: MessageWriter, options: ReplayOptions = {}): Thenable<ReplayResult> {
+	let recordedOn = options.recordedOn || (session.length > 0 && session[0].type.startsWith('receive-') ? 'server' : 'client');
+	let timeout = options.timeout !== void 0 ? options.timeout : 5000;
+	let clientPrefix = recordedOn === 'client' ? 'send-' : 'receive-';
+	let serverResponseType = recordedOn === 'client' ? 'receive-response' : 'send-response';
+
+	let requests: RequestMessage[] = [];
+	let expectedResponses: Map<string, ResponseMessage> = new Map();
+	let clientResponses: Map<string, ResponseMessage> = new Map();
+	let actualResponses: Map<string, ResponseMessage> = new Map();
+	let waiting: Map<string, () => void> = new Map();
+
+	reader.listen((data) => {
+		let messages: Message[] = Is.array<Message>(data) ? data : [data];
+		for (let message of messages) {
+			if (isResponseMessage(message)) {
+				let key = String(message.id);
+				actualResponses.set(key, message);
+				let resolve = waiting.get(key);
+				if (resolve) {
+					waiting.delete(key);
+					resolve();
+				}
+			} else if (isRequestMessage(message)) {
+				let response = clientResponses.get(String(message.id));
+				writer.write(response || {
+					jsonrpc: '2.0',
+					id: message.id,
+					error: { code: ErrorCodes.InternalError, message: `No recorded response for request ${message.method} (${message.id}).` }
+				} as ResponseMessage);
+			}
+		}
+	});
+
+	function waitForResponse(key: string): Promise<void> {
+		if (actualResponses.has(key)) {
+			return Promise.resolve();
+		}
+		return new Promise<void>((resolve) => {
+			let timer = setTimeout(() => {
+				waiting.delete(key);
+				resolve();
+			}, timeout);
+			waiting.set(key, () => {
+				clearTimeout(timer);
+				resolve();
+			});
+		});
+	}
+
+	let answered: string[] = [];
+	let replay: Promise<void> = Promise.resolve();
+	for (let entry of session) {
+		let message = entry.message;
+		if (entry.type === serverResponseType && isResponseMessage(message)) {
+			expectedResponses.set(String(message.id), message);
+			answered.push(String(message.id));
+		} else if (entry.type.startsWith(clientPrefix)) {
+			if (isResponseMessage(message)) {
+				clientResponses.set(String(message.id), message);
+				continue;
+			}
+			if (isRequestMessage(message)) {
+				requests.push(message);
+			}
+			let awaited = answered;
+			answered = [];
+			replay = replay.then(() => Promise.all(awaited.map(waitForResponse))).then(() => writer.write(message));
+		}
+	}
+
+	return replay.then(() => Promise.all(requests.map(request => String(request.id)).filter(key => expectedResponses.has(key)).map(waitForResponse))).then(() => {
+		let differences: ResponseDifference[] = [];
+		for (let request of requests) {
+			let expected = expectedResponses.get(String(request.id));
+			if (expected === void 0) {
+				// The request didn't get answered in the recording either.
+				continue;
+			}
+			let actual = actualResponses.get(String(request.id));
+			if (actual === void 0 || !equals(expected.result, actual.result) || !equals(expected.error, actual.error)) {
+				differences.push({ request, expected, actual });
+			}
+		}
+		return { requests: requests.length, differences };
+	});
+}
+
+function equals(one: any, other: any): boolean {
+	if (one === other) {
+		return true;
+	}
+	if (one === null || other === null || one === undefined || other === undefined || typeof one !== 'object' || typeof other !== 'object') {
+		return false;
+	}
+	if (Array.isArray(one) !== Array.isArray(other)) {
+		return false;
+	}
+	let oneKeys = Object.keys(one).filter(key => one[key] !== undefined);
+	let otherKeys = Object.keys(other).filter(key => other[key] !== undefined);
+	if (oneKeys.length !== otherKeys.length) {
+		return false;
+	}
+	for (let key of oneKeys) {
+		if (!equals(one[key], other[key])) {
+			return false;
+		}
+	}
+	return true;
+}
@@ -0,0 +1,438 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { randomBytes } from 'crypto';
+import { Server, Socket, createServer, createConnection } from 'net';
+
+import { Message, BatchMessage } from './messages';
+import { MessageReader, AbstractMessageReader, DataCallback, SocketMessageReader } from './messageReader';
+import { MessageWriter, AbstractMessageWriter } from './messageWriter';
+import { SocketTransport } from './socketSupport';
+import { Emitter, Disposable } from './events';
+import * as Is from './is';
+
+export interface ResumableSocketOptions {
+	/**
+	 * The maximal number of sent messages kept until the other side
+	 * acknowledged them. If exceeded the connection is closed. Defaults to 1000.
+	 */
+	maxUnacknowledged?: number;
+
+	/**
+	 * The time in milliseconds to wait for a dropped socket to get
+	 * reconnected before the connection is closed. Defaults to 30000.
+	 */
+	reconnectTimeout?: number;
+
+	/**
+	 * The delay in milliseconds before the first reconnect attempt. The
+	 * delay doubles with every failed attempt. Defaults to 100.
+	 */
+	reconnectDelay?: number;
+
+	/**
+	 * The maximal delay in milliseconds between two reconnect attempts.
+	 * Defaults to 5000.
+	 */
+	maxReconnectDelay?: number;
+}
+
+/**
+ * The frames exchanged over the socket. A frame carrying a `session` is
+ * the handshake sent on every new socket, a frame carrying a `seq` holds
+ * a message and every frame acknowledges the received messages using `ack`.
+ */
+interface Frame {
+	session?: string;
+	seq?: number;
+	ack: number;
+	message?: Message | BatchMessage;
+	end?: boolean;
+}
+
+namespace Frame {
+	export function is(value: any): value is Frame {
+		let candidate = value as Frame;
+		return candidate && typeof candidate === 'object' && !Is.array(candidate) && Is.number(candidate.ack)
+			&& (candidate.session === void 0 || Is.string(candidate.session))
+			&& (candidate.seq === void 0 || (Is.number(candidate.seq) && candidate.message !== void 0 && candidate.message !== null))
+			&& (candidate.end === void 0 || Is.boolean(candidate.end));
+	}
+}
+
+const AckDelay = 20;
+
+function writeFrame(socket: Socket, frame: Frame): void {
+	let content = Buffer.from(JSON.stringify(frame), 'utf8');
+	// Write header and content at once so that ending the socket afterwards is safe.
+	socket.write(Buffer.concat([Buffer.from(`Content-Length: ${content.length}\r\n\r\n`, 'ascii'), content]));
+}
+
+/**
+ * The state of a connection surviving dropped sockets. Sent messages are
+ * numbered and kept until the other side acknowledges them. When a new
+ * socket is attached both sides exchange the last sequence number they
+ * received and replay the messages the other side missed.
+ */
+class ResumableSession {
+
+	private id: string | undefined;
+	private socket: Socket | undefined;
+	private connected: boolean;
+	private ended: boolean;
+
+	private sent: number;
+	private received: number;
+	private unacknowledged: Frame[];
+	private maxUnacknowledged: number;
+
+	private callback: DataCallback | undefined;
+	private inbox: (Message | BatchMessage)[];
+
+	private ackTimer: NodeJS.Timer | undefined;
+	private lostTimer: NodeJS.Timer | undefined;
+	private reconnectTimer: NodeJS.Timer | undefined;
+	private delay: number;
+
+	private errorEmitter: Emitter<Error>;
+	private closeEmitter: Emitter<void>;
+
+	public constructor(private options: ResumableSocketOptions, private connect?: () => Socket) {
+		this.id = connect ? randomBytes(16).toString('hex') : undefined;
+		this.connected = false;
+		this.ended = false;
+		this.sent = 0;
+		this.received = 0;
+		this.unacknowledged = [];
+		this.maxUnacknowledged = options.maxUnacknowledged !== void 0 ? options.maxUnacknowledged : 1000;
+		this.inbox = [];
+		this.delay = this.initialDelay;
+		this.errorEmitter = new Emitter<Error>();
+		this.closeEmitter = new Emitter<void>();
+		if (connect) {
+			this.attach(connect());
+		} else {
+			this.startLostTimer();
+		}
+	}
+
+	public get onError() {
+		return this.errorEmitter.event;
+	}
+
+	public get onClose() {
+		return this.closeEmitter.event;
+	}
+
+	public listen(callback: DataCallback): void {
+		this.callback = callback;
+		let inbox = this.inbox;
+		this.inbox = [];
+		for (let message of inbox) {
+			callback(message);
+		}
+	}
+
+	/**
+	 * Attaches a new socket. For the accepting side the handshake decides
+	 * whether the socket belongs to this session.
+	 */
+	public attach(socket: Socket): void {
+		if (this.ended) {
+			socket.destroy();
+			return;
+		}
+		let reader = new SocketMessageReader(socket);
+		// Socket errors are followed by a close which starts reconnecting.
+		socket.on('error', () => { });
+		socket.on('close', () => this.detach(socket));
+		reader.listen((data) => {
+			if (Frame.is(data)) {
+				this.handleFrame(socket, data);
+			} else if (socket === this.socket) {
+				this.errorEmitter.fire(new Error(`Received malformed frame:\n${JSON.stringify(data, null, 4)}`));
+				this.end();
+			} else {
+				// Not a socket of this session.
+				socket.destroy();
+			}
+		});
+		if (this.connect) {
+			this.replaceSocket(socket);
+			writeFrame(socket, { session: this.id, ack: this.received });
+		}
+	}
+
+	public write(message: Message | BatchMessage): void {
+		if (this.ended) {
+			return;
+		}
+		if (this.unacknowledged.length >= this.maxUnacknowledged) {
+			this.errorEmitter.fire(new Error(`More than ${this.maxUnacknowledged} messages are not acknowledged.`));
+			this.end();
+			return;
+		}
+		let frame: Frame = { seq: ++this.sent, ack: this.received, message };
+		this.unacknowledged.push(frame);
+		if (this.connected) {
+			this.send(frame);
+		}
+	}
+
+	public end(): void {
+		if (this.ended) {
+			return;
+		}
+		if (this.connected) {
+			writeFrame(this.socket!, { ack: this.received, end: true });
+			this.socket!.end();
+		} else if (this.socket) {
+			this.socket.destroy();
+		}
+		this.terminate();
+	}
+
+	private get initialDelay(): number {
+		return this.options.reconnectDelay !== void 0 ? this.options.reconnectDelay : 100;
+	}
+
+	private terminate(): void {
+		this.ended = true;
+		this.connected = false;
+		this.socket = undefined;
+		this.unacknowledged = [];
+		this.clearTimers();
+		this.closeEmitter.fire(undefined);
+	}
+
+	private replaceSocket(socket: Socket): void {
+		let previous = this.socket;
+		this.socket = socket;
+		this.connected = false;
+		if (previous && previous !== socket) {
+			previous.destroy();
+		}
+	}
+
+	private handleFrame(socket: Socket, frame: Frame): void {
+		if (this.ended) {
+			return;
+		}
+		if (frame.session !== void 0) {
+			if (this.id !== void 0 && this.id !== frame.session) {
+				socket.destroy();
+				return;
+			}
+			if (this.connect) {
+				if (socket !== this.socket) {
+					return;
+				}
+			} else {
+				this.id = frame.session;
+				this.replaceSocket(socket);
+				writeFrame(socket, { session: this.id, ack: this.received });
+			}
+			this.resume(frame.ack);
+			return;
+		}
+		if (socket !== this.socket || !this.connected) {
+			return;
+		}
+		this.acknowledged(frame.ack);
+		if (frame.seq !== void 0) {
+			if (frame.seq <= this.received) {
+				// Replayed twice.
+				return;
+			}
+			if (frame.seq !== this.received + 1) {
+				this.errorEmitter.fire(new Error(`Missing message ${this.received + 1}. Received message ${frame.seq}.`));
+				this.end();
+				return;
+			}
+			this.received = frame.seq;
+			this.scheduleAck();
+			if (this.callback) {
+				this.callback(frame.message!);
+			} else {
+				this.inbox.push(frame.message!);
+			}
+		}
+		if (frame.end) {
+			socket.destroy();
+			this.terminate();
+		}
+	}
+
+	private resume(ack: number): void {
+		this.connected = true;
+		this.delay = this.initialDelay;
+		if (this.lostTimer) {
+			clearTimeout(this.lostTimer);
+			this.lostTimer = undefined;
+		}
+		this.acknowledged(ack);
+		for (let frame of this.unacknowledged) {
+			this.send(frame);
+		}
+	}
+
+	private acknowledged(ack: number): void {
+		let index = 0;
+		while (index < this.unacknowledged.length && this.unacknowledged[index].seq! <= ack) {
+			index++;
+		}
+		if (index > 0) {
+			this.unacknowledged.splice(0, index);
+		}
+	}
+
+	private send(frame: Frame): void {
+		frame.ack = this.received;
+		if (this.ackTimer) {
+			clearTimeout(this.ackTimer);
+			this.ackTimer = undefined;
+		}
+		writeFrame(this.socket!, frame);
+	}
+
+	private scheduleAck(): void {
+		if (this.ackTimer) {
+			return;
+		}
+		this.ackTimer = setTimeout(() => {
+			this.ackTimer = undefined;
+			if (this.connected) {
+				writeFrame(this.socket!, { ack: this.received });
+			}
+		}, AckDelay);
+	}
+
+	private detach(socket: Socket): void {
+		if (this.ended || socket !== this.socket) {
+			return;
+		}
+		this.socket = undefined;
+		this.connected = false;
+		this.startLostTimer();
+		if (this.connect) {
+			let connect = this.connect;
+			this.reconnectTimer = setTimeout(() => {
+				this.reconnectTimer = undefined;
+				if (!this.ended) {
+					this.attach(connect());
+				}
+			}, this.delay);
+			this.delay = Math.min(this.delay * 2, this.options.maxReconnectDelay !== void 0 ? this.options.maxReconnectDelay : 5000);
+		}
+	}
+
+	private startLostTimer(): void {
+		if (this.lostTimer) {
+			return;
+		}
+		let timeout = this.options.reconnectTimeout !== void 0 ? this.options.reconnectTimeout : 30000;
+		this.lostTimer = setTimeout(() => {
+			this.lostTimer = undefined;
+			this.errorEmitter.fire(new Error(`Socket didn't reconnect within ${timeout}ms.`));
+			this.end();
+		}, timeout);
+	}
+
+	private clearTimers(): void {
+		for (let timer of [this.ackTimer, this.lostTimer, this.reconnectTimer]) {
+			if (timer) {
+				clearTimeout(timer);
+			}
+		}
+		this.ackTimer = this.lostTimer = this.reconnectTimer = undefined;
+	}
+}
+
+class ResumableMessageReader extends AbstractMessageReader implements MessageReader {
+
+	private disposables: Disposable[];
+
+	public constructor(private session: ResumableSession) {
+		super();
+		this.disposables = [
+			session.onError(error => this.fireError(error)),
+			session.onClose(() => this.fireClose())
+		];
+	}
+
+	public listen(callback: DataCallback): void {
+		this.session.listen(callback);
+	}
+
+	public dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		super.dispose();
+		this.session.end();
+	}
+}
+
+class ResumableMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+	private disposables: Disposable[];
+
+	public constructor(private session: ResumableSession) {
+		super();
+		this.disposables = [
+			session.onError(error => this.fireError(error)),
+			session.onClose(() => this.fireClose())
+		];
+	}
+
+	public write(msg: Message | BatchMessage): void {
+		this.session.write(msg);
+	}
+
+	public dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		super.dispose();
+		this.session.end();
+	}
+}
+
+/**
+ * Creates a socket transport whose connection survives dropped sockets.
+ * The transport listens on the given port and accepts the reconnects of the
+ * other side created using [createServerResumableSocketTransport](#createServerResumableSocketTransport).
+ * Messages sent while the socket is down are delivered after the reconnect.
+ */
+export function createClientResumableSocketTransport(port: number, options: ResumableSocketOptions = {}): Thenable<SocketTransport> {
+	let connectResolve: any;
+	let connected = new Promise<[MessageReader, MessageWriter]>((resolve, _reject) => {
+		connectResolve = resolve;
+	});
+	return new Promise<SocketTransport>((resolve, reject) => {
+		let session: ResumableSession | undefined;
+		let server: Server = createServer((socket: Socket) => {
+			if (session === void 0) {
+				session = new ResumableSession(options);
+				session.onClose(() => server.close());
+				connectResolve([new ResumableMessageReader(session), new ResumableMessageWriter(session)]);
+			}
+			session.attach(socket);
+		});
+		server.on('error', reject);
+		server.listen(port, '127.0.0.1', () => {
+			server.removeListener('error', reject);
+			resolve({
+				onConnected: () => { return connected; }
+			});
+		});
+	});
+}
+
+/**
+ * Connects to a transport created using [createClientResumableSocketTransport](#createClientResumableSocketTransport).
+ * A dropped socket is reconnected with an exponential backoff.
+ */
+export function createServerResumableSocketTransport(port: number, options: ResumableSocketOptions = {}): [MessageReader, MessageWriter] {
+	let session = new ResumableSession(options, () => createConnection(port, '127.0.0.1'));
+	return [new ResumableMessageReader(session), new ResumableMessageWriter(session)];
+}
@@ -0,0 +1,126 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { RequestType, RequestType0, NotificationType, NotificationType0 } from './messages';
+import { CancellationToken } from './cancellation';
+import { RequestHandler, RequestHandler0, NotificationHandler, NotificationHandler0 } from './main';
+
+/**
+ * The message types making up an RPC interface keyed by the name of the
+ * proxy method.
+ */
+export interface RpcMessageTypes {
+	[name: string]: RequestType<any, any, any, any> | RequestType0<any, any, any> | NotificationType<any, any> | NotificationType0<any>;
+}
+
+/**
+ * The part of a connection used by an RPC interface. Both a `MessageConnection`
+ * and a language server `Connection` can be used.
+ */
+export interface RpcConnection {
+	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
+	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
+	sendNotification<RO>(type: NotificationType0<RO>): void;
+	sendNotification<P, RO>(type: NotificationType<P, RO>, params?: P): void;
+	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): void;
+	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): void;
+	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): void;
+	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): void;
+}
+
+/**
+ * A proxy with a method per message type. Requests return the result and
+ * notifications return nothing.
+ */
+export type RpcProxy<T extends RpcMessageTypes> = {
+	[K in keyof T]:
+		T[K] extends RequestType<infer P, infer R, any, any> ? (params: P, token?: CancellationToken) => Thenable<R> :
+		T[K] extends RequestType0<infer R, any, any> ? (token?: CancellationToken) => Thenable<R> :
+		T[K] extends NotificationType<infer P, any> ? (params: P) => void :
+		T[K] extends NotificationType0<any> ? () => void :
+		never;
+};
+
+/**
+ * The handlers implementing an RPC interface. Every message type needs a handler.
+ */
+export type RpcHandlers<T extends RpcMessageTypes> = {
+	[K in keyof T]:
+		T[K] extends RequestType<infer P, infer R, infer E, any> ? RequestHandler<P, R, E> :
+		T[K] extends RequestType0<infer R, infer E, any> ? RequestHandler0<R, E> :
+		T[K] extends NotificationType<infer P, any> ? NotificationHandler<P> :
+		T[K] extends NotificationType0<any> ? NotificationHandler0 :
+		never;
+};
+
+export interface RpcInterface<T extends RpcMessageTypes> {
+	/**
+	 * The message types of the interface.
+	 */
+	readonly types: T;
+
+	/**
+	 * Creates a proxy sending the messages of the interface over the given connection.
+	 */
+	createProxy(connection: RpcConnection): RpcProxy<T>;
+
+	/**
+	 * Registers the handlers of the interface with the given connection.
+	 * Throws if a message type has no handler. In that case no handler is
+	 * registered.
+	 */
+	implement(connection: RpcConnection, handlers: RpcHandlers<T>): void;
+}
+
+function isNotificationType(type: RpcMessageTypes[string]): type is NotificationType<any, any> | NotificationType0<any> {
+	return type instanceof NotificationType || type instanceof NotificationType0;
+}
+
+/**
+ * Creates an RPC interface from a record of request and notification types.
+ * Only types with at most one parameter are supported.
+ */
+export function createRpcInterface<T extends RpcMessageTypes>(types: T): RpcInterface<T> {
+	return {
+		types,
+		createProxy: (connection: RpcConnection): RpcProxy<T> => {
+			let result: any = Object.create(null);
+			for (let name of Object.keys(types)) {
+				let type = types[name];
+				if (isNotificationType(type)) {
+					result[name] = type.numberOfParams === 0
+						? () => connection.sendNotification(type as NotificationType0<any>)
+						: (params: any) => connection.sendNotification(type as NotificationType<any, any>, params);
+				} else {
+					// Only pass a token if there is one. Connections sending by method name treat a trailing undefined as a parameter.
+					result[name] = type.numberOfParams === 0
+						? (token?: CancellationToken) => token !== void 0
+							? connection.sendRequest(type as RequestType0<any, any, any>, token)
+							: connection.sendRequest(type as RequestType0<any, any, any>)
+						: (params: any, token?: CancellationToken) => token !== void 0
+							? connection.sendRequest(type as RequestType<any, any, any, any>, params, token)
+							: connection.sendRequest(type as RequestType<any, any, any, any>, params);
+				}
+			}
+			return result;
+		},
+		implement: (connection: RpcConnection, handlers: RpcHandlers<T>): void => {
+			let missing = Object.keys(types).filter(name => typeof (handlers as any)[name] !== 'function');
+			if (missing.length > 0) {
+				throw new Error(`Missing implementation for ${missing.map(name => `${name} (${types[name].method})`).join(', ')}.`);
+			}
+			for (let name of Object.keys(types)) {
+				let type = types[name];
+				let handler = (handlers as any)[name];
+				if (isNotificationType(type)) {
+					connection.onNotification(type as NotificationType<any, any>, handler);
+				} else {
+					connection.onRequest(type as RequestType<any, any, any, any>, handler);
+				}
+			}
+		}
+	};
+}
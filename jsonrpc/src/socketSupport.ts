@@ -6,14 +6,15 @@
 
 import { Server, Socket, createServer, createConnection } from 'net';
 
-import { MessageReader, SocketMessageReader } from './messageReader';
-import { MessageWriter, SocketMessageWriter } from './messageWriter';
+import { MessageReader, SocketMessageReader, MessageReaderOptions } from './messageReader';
+import { MessageWriter, SocketMessageWriter, MessageWriterOptions } from './messageWriter';
+import { TransportListener, createTransportListener } from './transportListener';
 
 export interface SocketTransport {
 	onConnected(): Thenable<[MessageReader, MessageWriter]>;
 }
 
-export function createClientSocketTransport(port: number, encoding: string = 'utf-8'): Thenable<SocketTransport> {
+export function createClientSocketTransport(port: number, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): Thenable<SocketTransport> {
 	let connectResolve: any;
 	let connected = new Promise<[MessageReader, MessageWriter]>((resolve, _reject) => {
 		connectResolve = resolve;
@@ -22,8 +23,8 @@ export function createClientSocketTransport(port: number, encoding: string = 'ut
 		let server: Server = createServer((socket: Socket) => {
 			server.close();
 			connectResolve([
-				new SocketMessageReader(socket, encoding),
-				new SocketMessageWriter(socket, encoding)
+				new SocketMessageReader(socket, options),
+				new SocketMessageWriter(socket, options)
 			]);
 		});
 		server.on('error', reject);
@@ -36,10 +37,19 @@ export function createClientSocketTransport(port: number, encoding: string = 'ut
 	});
 }
 
-export function createServerSocketTransport(port: number, encoding: string = 'utf-8'): [MessageReader, MessageWriter] {
+export function createServerSocketTransport(port: number, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): [MessageReader, MessageWriter] {
 	const socket: Socket = createConnection(port, '127.0.0.1');
 	return [
-		new SocketMessageReader(socket, encoding),
-		new SocketMessageWriter(socket, encoding)
+		new SocketMessageReader(socket, options),
+		new SocketMessageWriter(socket, options)
 	];
+}
+
+/**
+ * Listens on the given port for any number of clients. Use it for a server
+ * shared by several clients instead of connecting to a single client.
+ */
+export function createSocketListener(port: number, options: string | (MessageReaderOptions & MessageWriterOptions) = 'utf-8'): Thenable<TransportListener> {
+	let server: Server = createServer();
+	return createTransportListener(server, (callback) => server.listen(port, '127.0.0.1', callback), options);
 }
\ No newline at end of file
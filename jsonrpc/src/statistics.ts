@@ -0,0 +1,205 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/**
+ * A histogram of durations in milliseconds.
+ */
+export interface LatencyHistogram {
+	/**
+	 * The inclusive upper bounds of the buckets in milliseconds.
+	 */
+	bounds: number[];
+
+	/**
+	 * The number of values per bucket. Has one element more than `bounds`.
+	 * The last bucket counts the values larger than the last bound.
+	 */
+	counts: number[];
+
+	/**
+	 * The number of values recorded.
+	 */
+	count: number;
+
+	/**
+	 * The sum of all values recorded.
+	 */
+	sum: number;
+
+	/**
+	 * The largest value recorded.
+	 */
+	max: number;
+}
+
+export namespace LatencyHistogram {
+
+	export const defaultBounds: number[] = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+	export function create(bounds: number[] = defaultBounds): LatencyHistogram {
+		return { bounds: bounds.slice(), counts: new Array(bounds.length + 1).fill(0), count: 0, sum: 0, max: 0 };
+	}
+
+	export function add(histogram: LatencyHistogram, value: number): void {
+		let index = 0;
+		while (index < histogram.bounds.length && value > histogram.bounds[index]) {
+			index++;
+		}
+		histogram.counts[index]++;
+		histogram.count++;
+		histogram.sum += value;
+		histogram.max = Math.max(histogram.max, value);
+	}
+
+	export function copy(histogram: LatencyHistogram): LatencyHistogram {
+		return { bounds: histogram.bounds.slice(), counts: histogram.counts.slice(), count: histogram.count, sum: histogram.sum, max: histogram.max };
+	}
+}
+
+export interface MethodStatistics {
+	/**
+	 * The number of messages sent using the method.
+	 */
+	sent: number;
+
+	/**
+	 * The number of messages received using the method.
+	 */
+	received: number;
+
+	/**
+	 * The time between sending a request and receiving its response.
+	 * Only available for requests.
+	 */
+	latency?: LatencyHistogram;
+
+	/**
+	 * The time between starting to handle a received request and sending
+	 * its response. Only available for requests.
+	 */
+	processingTime?: LatencyHistogram;
+}
+
+export interface ConnectionStatistics {
+	/**
+	 * The time the statistics got taken.
+	 */
+	timestamp: number;
+
+	/**
+	 * The statistics of requests by method.
+	 */
+	requests: { [method: string]: MethodStatistics };
+
+	/**
+	 * The statistics of notifications by method.
+	 */
+	notifications: { [method: string]: MethodStatistics };
+
+	/**
+	 * The number of received messages waiting to be dispatched.
+	 */
+	queueDepth: number;
+
+	/**
+	 * The number of sent requests waiting for a response.
+	 */
+	pendingResponses: number;
+
+	/**
+	 * The number of received requests being processed which can be cancelled.
+	 */
+	activeCancellationTokens: number;
+
+	/**
+	 * The number of bytes read or `undefined` if the reader doesn't track it.
+	 */
+	bytesRead: number | undefined;
+
+	/**
+	 * The number of bytes written or `undefined` if the writer doesn't track it.
+	 */
+	bytesWritten: number | undefined;
+
+	/**
+	 * The number of bytes waiting to be written or `undefined` if the writer
+	 * doesn't track it.
+	 */
+	pendingBytes: number | undefined;
+}
+
+/**
+ * Collects the per method statistics of a connection.
+ */
+export class MethodStatisticsCollector {
+
+	private requests: Map<string, MethodStatistics>;
+	private notifications: Map<string, MethodStatistics>;
+
+	public constructor() {
+		this.requests = new Map();
+		this.notifications = new Map();
+	}
+
+	public requestSent(method: string): void {
+		this.getRequest(method).sent++;
+	}
+
+	public requestReceived(method: string): void {
+		this.getRequest(method).received++;
+	}
+
+	public responseReceived(method: string, latency: number): void {
+		LatencyHistogram.add(this.getRequest(method).latency!, latency);
+	}
+
+	public responseSent(method: string, processingTime: number): void {
+		LatencyHistogram.add(this.getRequest(method).processingTime!, processingTime);
+	}
+
+	public notificationSent(method: string): void {
+		this.getNotification(method).sent++;
+	}
+
+	public notificationReceived(method: string): void {
+		this.getNotification(method).received++;
+	}
+
+	public snapshot(): Pick<ConnectionStatistics, 'requests' | 'notifications'> {
+		let requests: { [method: string]: MethodStatistics } = Object.create(null);
+		this.requests.forEach((value, method) => {
+			requests[method] = {
+				sent: value.sent,
+				received: value.received,
+				latency: LatencyHistogram.copy(value.latency!),
+				processingTime: LatencyHistogram.copy(value.processingTime!)
+			};
+		});
+		let notifications: { [method: string]: MethodStatistics } = Object.create(null);
+		this.notifications.forEach((value, method) => {
+			notifications[method] = { sent: value.sent, received: value.received };
+		});
+		return { requests, notifications };
+	}
+
+	private getRequest(method: string): MethodStatistics {
+		let result = this.requests.get(method);
+		if (result === void 0) {
+			result = { sent: 0, received: 0, latency: LatencyHistogram.create(), processingTime: LatencyHistogram.create() };
+			this.requests.set(method, result);
+		}
+		return result;
+	}
+
+	private getNotification(method: string): MethodStatistics {
+		let result = this.notifications.get(method);
+		if (result === void 0) {
+			result = { sent: 0, received: 0 };
+			this.notifications.set(method, result);
+		}
+		return result;
+	}
+}
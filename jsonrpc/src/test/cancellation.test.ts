@@ -0,0 +1,111 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+
+import {
+	CancellationToken, CancellationTokenSource, TimeoutCancellationTokenSource, AbortSignalCancellationTokenSource, CombinedCancellationTokenSource
+} from '../cancellation';
+
+describe('Cancellation', () => {
+
+	it('Token to abort signal', () => {
+		let source = new CancellationTokenSource();
+		let signal = CancellationToken.toAbortSignal(source.token);
+		let aborted = false;
+		signal.addEventListener('abort', () => aborted = true);
+		assert.strictEqual(signal.aborted, false);
+		source.cancel();
+		assert.strictEqual(signal.aborted, true);
+		assert.strictEqual(aborted, true);
+		assert.strictEqual(CancellationToken.toAbortSignal(CancellationToken.Cancelled).aborted, true);
+	});
+
+	it('Token to abort signal releases its subscription', () => {
+		let source = new CancellationTokenSource();
+		let subscribed = 0;
+		let token: CancellationToken = {
+			get isCancellationRequested() { return source.token.isCancellationRequested; },
+			onCancellationRequested: (listener: (e: any) => any) => {
+				subscribed++;
+				let subscription = source.token.onCancellationRequested(listener);
+				return { dispose: () => { subscribed--; subscription.dispose(); } };
+			}
+		};
+		let signal = CancellationToken.toAbortSignal(token);
+		assert.strictEqual(subscribed, 1);
+		source.cancel();
+		assert.strictEqual(signal.aborted, true);
+		assert.strictEqual(subscribed, 0);
+	});
+
+	it('Abort signal to token', () => {
+		let signal = CancellationToken.toAbortSignal(CancellationToken.None);
+		assert.strictEqual(new AbortSignalCancellationTokenSource(signal).token.isCancellationRequested, false);
+		let source = new CancellationTokenSource();
+		let token = new AbortSignalCancellationTokenSource(CancellationToken.toAbortSignal(source.token)).token;
+		source.cancel();
+		assert.strictEqual(token.isCancellationRequested, true);
+	});
+
+	it('Abort signal token source removes its listener', () => {
+		let listeners = 0;
+		let signal = {
+			aborted: false,
+			addEventListener: () => listeners++,
+			removeEventListener: () => listeners--
+		};
+		let source = new AbortSignalCancellationTokenSource(signal);
+		assert.strictEqual(listeners, 1);
+		source.dispose();
+		assert.strictEqual(listeners, 0);
+	});
+
+	it('Combined token', () => {
+		let first = new CancellationTokenSource();
+		let second = new CancellationTokenSource();
+		let token = new CombinedCancellationTokenSource([first.token, second.token]).token;
+		let fired = 0;
+		token.onCancellationRequested(() => fired++);
+		assert.strictEqual(token.isCancellationRequested, false);
+		second.cancel();
+		first.cancel();
+		assert.strictEqual(token.isCancellationRequested, true);
+		assert.strictEqual(fired, 1);
+		assert.strictEqual(new CombinedCancellationTokenSource([CancellationToken.None, CancellationToken.Cancelled]).token.isCancellationRequested, true);
+	});
+
+	it('Any token', () => {
+		let first = new CancellationTokenSource();
+		let second = new CancellationTokenSource();
+		let token = CancellationToken.any([first.token, second.token]);
+		assert.strictEqual(token.isCancellationRequested, false);
+		second.cancel();
+		assert.strictEqual(token.isCancellationRequested, true);
+		assert.strictEqual(CancellationToken.any([CancellationToken.None, CancellationToken.Cancelled]).isCancellationRequested, true);
+		assert.strictEqual(CancellationToken.any([]).isCancellationRequested, false);
+	});
+
+	it('Disposed combined token source unsubscribes', () => {
+		let first = new CancellationTokenSource();
+		let combined = new CombinedCancellationTokenSource([first.token]);
+		let token = combined.token;
+		combined.dispose();
+		first.cancel();
+		assert.strictEqual(token.isCancellationRequested, false);
+	});
+
+	it('Timeout token source', (done) => {
+		let source = new TimeoutCancellationTokenSource(10);
+		let disposed = new TimeoutCancellationTokenSource(10);
+		let disposedToken = disposed.token;
+		disposed.dispose();
+		source.token.onCancellationRequested(() => {
+			assert.strictEqual(disposedToken.isCancellationRequested, false);
+			done();
+		});
+	});
+});
@@ -0,0 +1,54 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+
+import { Message, RequestMessage } from '../messages';
+import { MessageCodecs } from '../codec';
+
+function roundTrip(message: Message): Message {
+	return MessageCodecs.msgpack.decode(MessageCodecs.msgpack.encode(message, 'utf8'), 'utf8');
+}
+
+describe('MessagePack codec', () => {
+
+	it('Encodes values like JSON', () => {
+		let message: RequestMessage = {
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'test/values',
+			params: {
+				nil: null,
+				t: true,
+				f: false,
+				integers: [0, 127, 128, 255, 256, 65535, 65536, 4294967295, 4294967296, Number.MAX_SAFE_INTEGER],
+				negatives: [-1, -32, -33, -128, -129, -32768, -32769, -2147483648, -2147483649, Number.MIN_SAFE_INTEGER],
+				floats: [0.5, -1.25, 1e300],
+				strings: ['', 'a', 'x'.repeat(31), 'x'.repeat(32), 'x'.repeat(256), 'x'.repeat(65536), 'äöü €'],
+				nested: { list: new Array(20).fill({ a: 1 }), map: {} }
+			}
+		};
+		assert.deepStrictEqual(roundTrip(message), JSON.parse(JSON.stringify(message)));
+	});
+
+	it('Omits undefined and function properties', () => {
+		let params: any = { a: undefined, b: () => 1, c: [undefined], d: new Date(0), e: NaN };
+		let message: RequestMessage = { jsonrpc: '2.0', id: 1, method: 'test/skip', params };
+		assert.deepStrictEqual(roundTrip(message), JSON.parse(JSON.stringify(message)));
+	});
+
+	it('Does not change the prototype', () => {
+		let content = Buffer.from([0x81, 0xa9].concat(Array.from(Buffer.from('__proto__'))).concat([0x81, 0xa1, 0x78, 0x01]));
+		let result: any = MessageCodecs.msgpack.decode(content, 'utf8');
+		assert.strictEqual(Object.getPrototypeOf(result), Object.prototype);
+		assert.strictEqual(result.x, undefined);
+	});
+
+	it('Rejects truncated content', () => {
+		let content = MessageCodecs.msgpack.encode({ jsonrpc: '2.0' }, 'utf8');
+		assert.throws(() => MessageCodecs.msgpack.decode(content.slice(0, content.length - 1), 'utf8'));
+	});
+});
@@ -5,12 +5,19 @@
 'use strict';
 
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 import { Duplex  } from 'stream';
 import { inherits } from 'util';
 
-import { RequestType, RequestType3, ResponseError, NotificationType, NotificationType2, ErrorCodes } from '../messages';
-import { CancellationTokenSource } from '../cancellation';
+import { RequestMessage, ResponseMessage, NotificationMessage, RequestType, RequestType0, RequestType2, RequestType3, ResponseError, NotificationType, NotificationType2, ErrorCodes, ParameterStructures } from '../messages';
+import { CancellationTokenSource, CancellationToken } from '../cancellation';
+import { StreamMessageReader } from '../messageReader';
+import { StreamMessageWriter } from '../messageWriter';
+import { ContentEncodings } from '../encoding';
+import { MessageCodecs } from '../codec';
 
 import * as hostConnection from '../main';
 
@@ -58,14 +65,12 @@ describe('Connection', () => {
 
 		let connection = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
 		connection.listen();
-		let counter = 0;
-		let content: string = "";
         duplexStream2.on('data', (chunk) => {
-			content += chunk.toString();
-			if (++counter === 2) {
-				assert.strictEqual(content.indexOf("Content-Length: 75"), 0);
-				done();
-			}
+			// Header and body are written using a single chunk.
+			let content = chunk.toString();
+			assert.strictEqual(content.indexOf("Content-Length: 75"), 0);
+			assert.ok(content.indexOf('"method":"test/handleSingleRequest"') !== -1);
+			done();
         });
 		connection.sendRequest(type, 'foo');
 	});
@@ -496,4 +501,894 @@ describe('Connection', () => {
 		client.listen();
 		(client.sendNotification as Function)(type, 10);
 	});
+
+	it('Request timeout from connection strategy', (done) => {
+		let type = new RequestType<string, string, void, void>('test/hang');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let cancelled = false;
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (_param, token) => {
+			return new Promise<string>((resolve) => {
+				token.onCancellationRequested(() => {
+					cancelled = true;
+					resolve('cancelled');
+				});
+			});
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { requestTimeout: 20 });
+		client.listen();
+		client.sendRequest(type, 'foo').then(() => {
+			assert(false);
+		}, (error: ResponseError<any>) => {
+			assert.strictEqual(error.code, ErrorCodes.RequestTimeout);
+			setTimeout(() => {
+				assert.ok(cancelled);
+				done();
+			}, 20);
+		});
+	});
+
+	it('Request timeout per request', (done) => {
+		let type = new RequestType<string, string, void, void>('test/hang');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => {
+			return new Promise<string>((resolve) => {
+				setTimeout(() => resolve(param), 50);
+			});
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { requestTimeout: 10 });
+		client.listen();
+		client.sendRequest(type, 'foo', new hostConnection.RequestOptions({ timeout: 200 })).then((result) => {
+			assert.strictEqual(result, 'foo');
+			return client.sendRequest('test/hang', 'bar', new hostConnection.RequestOptions({ timeout: 10, token: new CancellationTokenSource().token }));
+		}).then(() => {
+			assert(false);
+		}, (error: ResponseError<any>) => {
+			assert.strictEqual(error.code, ErrorCodes.RequestTimeout);
+			done();
+		});
+	});
+
+	it('Object literal looking like request options is sent as parameter', (done) => {
+		let type = new RequestType<{ timeout: number }, number, void, void>('test/literal');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => param.timeout);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(type, { timeout: 10 }).then((result) => {
+			assert.strictEqual(result, 10);
+			return client.sendRequest<number>('test/literal', { timeout: 20 });
+		}).then((result) => {
+			assert.strictEqual(result, 20);
+			done();
+		});
+	});
+
+	it('Request timeout is traced', (done) => {
+		let type = new RequestType0<void, void, void>('test/unanswered');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let messages: string[] = [];
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.trace(hostConnection.Trace.Messages, { log: (message: string) => messages.push(message) });
+		client.listen();
+		client.sendRequest(type, new hostConnection.RequestOptions({ timeout: 10 })).then(() => {
+			assert(false);
+		}, () => {
+			assert.ok(messages.some(message => message === `Request 'test/unanswered - (0)' timed out after 10ms.`));
+			done();
+		});
+	});
+
+	it('Receive batch', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let notified = false;
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => {
+			return param === 'foo' ? param : Promise.resolve(param);
+		});
+		server.onNotification(testNotification, () => {
+			notified = true;
+		});
+		server.listen();
+
+		new StreamMessageReader(duplexStream1).listen((message: any) => {
+			assert.ok(Array.isArray(message));
+			assert.strictEqual(message.length, 2);
+			let results = message.map((response: any) => response.result).sort();
+			assert.deepEqual(results, ['bar', 'foo']);
+			assert.ok(notified);
+			done();
+		});
+		new StreamMessageWriter(duplexStream2).write(<any>[
+			{ jsonrpc: '2.0', id: 1, method: type.method, params: 'foo' },
+			{ jsonrpc: '2.0', method: testNotification.method, params: { value: true } },
+			{ jsonrpc: '2.0', id: 2, method: type.method, params: 'bar' }
+		]);
+	});
+
+	it('Receive batch with a dropped response', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => param);
+		server.addInterceptor({
+			outgoing: (message, next) => {
+				if ((message as ResponseMessage).result !== 'foo') {
+					next(message);
+				}
+			}
+		});
+		server.listen();
+
+		new StreamMessageReader(duplexStream1).listen((message: any) => {
+			assert.ok(Array.isArray(message));
+			assert.deepEqual(message.map((response: any) => response.result), ['bar']);
+			done();
+		});
+		new StreamMessageWriter(duplexStream2).write(<any>[
+			{ jsonrpc: '2.0', id: 1, method: type.method, params: 'foo' },
+			{ jsonrpc: '2.0', id: 2, method: type.method, params: 'bar' }
+		]);
+	});
+
+	it('Receive batch with a dropped request', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => param);
+		server.addInterceptor({
+			incoming: (message, next) => {
+				if ((message as RequestMessage).params !== 'foo') {
+					next(message);
+				}
+			}
+		});
+		server.listen();
+
+		new StreamMessageReader(duplexStream1).listen((message: any) => {
+			assert.ok(Array.isArray(message));
+			assert.deepEqual(message.map((response: any) => response.result), ['bar']);
+			done();
+		});
+		new StreamMessageWriter(duplexStream2).write(<any>[
+			{ jsonrpc: '2.0', id: 1, method: type.method, params: 'foo' },
+			{ jsonrpc: '2.0', id: 2, method: type.method, params: 'bar' }
+		]);
+	});
+
+	it('Receive batch with duplicate request ids', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		let handled: string[] = [];
+		server.onRequest(type, (param) => {
+			handled.push(param);
+			return param;
+		});
+		server.listen();
+
+		new StreamMessageReader(duplexStream1).listen((message: any) => {
+			assert.ok(Array.isArray(message));
+			assert.strictEqual(message.length, 3);
+			let errors = message.filter((response: any) => response.error !== void 0);
+			assert.strictEqual(errors.length, 1);
+			assert.strictEqual(errors[0].id, null);
+			assert.strictEqual(errors[0].error.code, ErrorCodes.InvalidRequest);
+			assert.deepEqual(message.filter((response: any) => response.error === void 0).map((response: any) => [response.id, response.result]), [[1, 'foo'], [2, 'baz']]);
+			assert.deepEqual(handled, ['foo', 'baz']);
+			done();
+		});
+		new StreamMessageWriter(duplexStream2).write(<any>[
+			{ jsonrpc: '2.0', id: 1, method: type.method, params: 'foo' },
+			{ jsonrpc: '2.0', id: 1, method: type.method, params: 'bar' },
+			{ jsonrpc: '2.0', id: 2, method: type.method, params: 'baz' }
+		]);
+	});
+
+	it('Receive empty batch', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.listen();
+
+		new StreamMessageReader(duplexStream1).listen((message: any) => {
+			assert.strictEqual(message.id, null);
+			assert.strictEqual(message.error.code, ErrorCodes.InvalidRequest);
+			done();
+		});
+		new StreamMessageWriter(duplexStream2).write([]);
+	});
+
+	it('Send batch', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let notifications = 0;
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, param => param);
+		server.onNotification(testNotification, () => {
+			notifications++;
+		});
+		server.listen();
+
+		let writes = 0;
+		duplexStream1.on('data', () => {
+			writes++;
+		});
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		let result: Thenable<string> | undefined;
+		client.sendBatch((batch) => {
+			batch.sendNotification(testNotification, { value: true });
+			batch.sendNotification(testNotification, { value: false });
+			result = batch.sendRequest(type, 'foo');
+		});
+		result!.then((value) => {
+			assert.strictEqual(value, 'foo');
+			assert.strictEqual(notifications, 2);
+			// Header and body of a single message are written at once.
+			assert.strictEqual(writes, 1);
+			done();
+		});
+	});
+
+	it('Failing batch callback rejects its requests', async () => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		assert.throws(() => client.sendBatch(() => {}));
+		client.listen();
+		let result: Thenable<string> | undefined;
+		assert.throws(() => client.sendBatch((batch) => {
+			result = batch.sendRequest(type, 'foo');
+			throw new Error('failed');
+		}));
+		await result!.then(() => assert.fail('request must not succeed'), (error: ResponseError<void>) => {
+			assert.strictEqual(error.code, ErrorCodes.MessageWriteError);
+		});
+	});
+
+	it('Negotiates content encoding', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(
+			new StreamMessageReader(duplexStream2, { contentDecoders: ContentEncodings.all }),
+			new StreamMessageWriter(duplexStream1, { contentEncoders: ContentEncodings.all }),
+			hostConnection.NullLogger);
+		server.onRequest(type, param => param);
+		server.listen();
+
+		let content = '';
+		duplexStream1.on('data', (chunk) => {
+			content += chunk.toString('latin1');
+		});
+		let client = hostConnection.createMessageConnection(
+			new StreamMessageReader(duplexStream1, { contentDecoders: [ContentEncodings.deflate] }),
+			new StreamMessageWriter(duplexStream2),
+			hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(type, 'foo').then((result) => {
+			assert.strictEqual(result, 'foo');
+			assert.ok(content.indexOf('Content-Encoding: deflate') !== -1);
+			done();
+		});
+	});
+
+	it('Uses message codec', (done) => {
+		let type = new RequestType<{ values: number[], name: string }, { values: number[], name: string }, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, { messageCodec: MessageCodecs.msgpack });
+		server.onRequest(type, param => param);
+		server.listen();
+
+		let content = '';
+		duplexStream1.on('data', (chunk) => {
+			content += chunk.toString('latin1');
+		});
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { messageCodec: MessageCodecs.msgpack });
+		client.listen();
+		let param = { values: [1, -1, 300, 1.5], name: 'foo' };
+		client.sendRequest(type, param).then((result) => {
+			assert.deepStrictEqual(result, param);
+			assert.ok(content.indexOf('Content-Type: application/msgpack') !== -1);
+			assert.ok(content.indexOf('"jsonrpc"') === -1);
+			done();
+		});
+	});
+
+	it('Reads JSON messages when using a message codec', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, { messageCodec: MessageCodecs.msgpack });
+		server.onRequest(type, param => param);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(
+			new StreamMessageReader(duplexStream1, { codec: MessageCodecs.msgpack }),
+			new StreamMessageWriter(duplexStream2),
+			hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(type, 'foo').then((result) => {
+			assert.strictEqual(result, 'foo');
+			done();
+		});
+	});
+
+	it('Dispatches document notifications in order', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let received: string[] = [];
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onNotification((method: string, params: any) => {
+			received.push(`${method}:${params.version}`);
+			if (method === 'textDocument/didClose') {
+				assert.deepStrictEqual(received, [
+					'textDocument/didOpen:1', 'textDocument/didChange:2', 'textDocument/didSave:2', 'textDocument/didChange:3', 'textDocument/didClose:3'
+				]);
+				done();
+			}
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendNotification('textDocument/didOpen', { uri: 'file:///a', version: 1 });
+		client.sendNotification('textDocument/didChange', { uri: 'file:///a', version: 2 });
+		client.sendNotification('textDocument/didSave', { uri: 'file:///a', version: 2 });
+		client.sendNotification('textDocument/didChange', { uri: 'file:///a', version: 3 });
+		client.sendNotification('textDocument/didClose', { uri: 'file:///a', version: 3 });
+	});
+
+	it('Dispatches messages by priority', (done) => {
+		let type = new RequestType0<string, void, void>('test/urgent');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let received: string[] = [];
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, {
+			messagePriority: (message) => (message as RequestMessage).method === type.method ? 1 : 0
+		});
+		server.onNotification((method: string, params: any) => {
+			received.push(`${method}:${params.version}`);
+			if (received.length === 4) {
+				assert.deepStrictEqual(received, [
+					'test/urgent:0', 'textDocument/didChange:1', 'textDocument/didChange:2', 'textDocument/didChange:3'
+				]);
+				done();
+			}
+		});
+		server.onRequest(type, () => {
+			received.push(`${type.method}:0`);
+			return 'done';
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendNotification('textDocument/didChange', { uri: 'file:///a', version: 1 });
+		client.sendNotification('textDocument/didChange', { uri: 'file:///a', version: 2 });
+		client.sendNotification('textDocument/didChange', { uri: 'file:///a', version: 3 });
+		client.sendRequest(type);
+	});
+
+	it('Coalesces consecutive notifications', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let received: string[] = [];
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, {
+			coalesceNotifications: (queued, next) => {
+				return queued.method === 'textDocument/didChange' && next.method === 'textDocument/didChange' &&
+					(queued.params as any).uri === (next.params as any).uri;
+			}
+		});
+		server.onNotification((method: string, params: any) => {
+			received.push(`${method}:${params.uri}:${params.version}`);
+			if (method === 'textDocument/didClose') {
+				assert.deepStrictEqual(received, [
+					'textDocument/didOpen:a:1', 'textDocument/didChange:a:3', 'textDocument/didSave:a:3',
+					'textDocument/didChange:a:4', 'textDocument/didChange:b:1', 'textDocument/didChange:a:6', 'textDocument/didClose:a:6'
+				]);
+				done();
+			}
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendNotification('textDocument/didOpen', { uri: 'a', version: 1 });
+		client.sendNotification('textDocument/didChange', { uri: 'a', version: 2 });
+		client.sendNotification('textDocument/didChange', { uri: 'a', version: 3 });
+		client.sendNotification('textDocument/didSave', { uri: 'a', version: 3 });
+		client.sendNotification('textDocument/didChange', { uri: 'a', version: 4 });
+		client.sendNotification('textDocument/didChange', { uri: 'b', version: 1 });
+		client.sendNotification('textDocument/didChange', { uri: 'a', version: 5 });
+		client.sendNotification('textDocument/didChange', { uri: 'a', version: 6 });
+		client.sendNotification('textDocument/didClose', { uri: 'a', version: 6 });
+	});
+
+	it('Intercepts incoming and outgoing messages', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		let seen: string[] = [];
+		server.addInterceptor({
+			incoming: (message, next) => {
+				seen.push('first');
+				let request = message as RequestMessage;
+				next(Object.assign({}, request, { params: request.params + '-in' }));
+			}
+		});
+		server.addInterceptor({
+			incoming: (message, next) => {
+				seen.push('second');
+				next(message);
+			},
+			outgoing: (message, next) => {
+				// Delay the response.
+				setTimeout(() => next(Object.assign({}, message, { result: (message as ResponseMessage).result + '-out' })), 10);
+			}
+		});
+		server.onRequest(type, param => param);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(type, 'foo').then((result) => {
+			assert.strictEqual(result, 'foo-in-out');
+			assert.deepStrictEqual(seen, ['first', 'second']);
+			done();
+		});
+	});
+
+	it('Short-circuits requests in an interceptor', (done) => {
+		let type = new RequestType<string, string, void, void>('test/cached');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		let serverRequests = 0;
+		server.onRequest(type, (param) => {
+			serverRequests++;
+			return param;
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		let cache: Map<string, any> = new Map();
+		let disposable = client.addInterceptor({
+			outgoing: (message, next, reply) => {
+				let request = message as RequestMessage;
+				if (request.method === type.method && cache.has(request.params)) {
+					reply({ jsonrpc: '2.0', id: request.id, result: cache.get(request.params) } as ResponseMessage);
+				} else {
+					next(message);
+				}
+			}
+		});
+		cache.set('foo', 'cached');
+		client.listen();
+		client.sendRequest(type, 'foo').then((result) => {
+			assert.strictEqual(result, 'cached');
+			assert.strictEqual(serverRequests, 0);
+			disposable.dispose();
+			return client.sendRequest(type, 'foo');
+		}).then((result) => {
+			assert.strictEqual(result, 'foo');
+			assert.strictEqual(serverRequests, 1);
+			done();
+		});
+	});
+
+	it('Collects statistics', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let notification = new NotificationType<string, void>('test/notify');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, param => param);
+		server.onNotification(notification, () => {});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendNotification(notification, 'foo');
+		let pending = client.sendRequest(type, 'foo');
+		assert.strictEqual(client.getStatistics().pendingResponses, 1);
+		Promise.all([pending, client.sendRequest(type, 'bar')]).then(() => {
+			let clientStatistics = client.getStatistics();
+			assert.strictEqual(clientStatistics.requests[type.method].sent, 2);
+			assert.strictEqual(clientStatistics.requests[type.method].latency!.count, 2);
+			assert.strictEqual(clientStatistics.notifications[notification.method].sent, 1);
+			assert.strictEqual(clientStatistics.pendingResponses, 0);
+			assert.ok(clientStatistics.bytesWritten! > 0);
+			assert.ok(clientStatistics.bytesRead! > 0);
+
+			let serverStatistics = server.getStatistics();
+			assert.strictEqual(serverStatistics.requests[type.method].received, 2);
+			assert.strictEqual(serverStatistics.requests[type.method].processingTime!.count, 2);
+			assert.strictEqual(serverStatistics.notifications[notification.method].received, 1);
+			assert.strictEqual(serverStatistics.bytesRead, clientStatistics.bytesWritten);
+			assert.strictEqual(serverStatistics.queueDepth, 0);
+			done();
+		});
+	});
+
+	it('Fires statistics periodically', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+		let connection = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { statisticsInterval: 5 });
+		connection.listen();
+		let count = 0;
+		let disposable = connection.onStatistics((statistics) => {
+			assert.strictEqual(statistics.pendingResponses, 0);
+			if (++count === 2) {
+				disposable.dispose();
+				connection.dispose();
+				done();
+			}
+		});
+	});
+
+	it('No statistics after dispose', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+		let connection = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { statisticsInterval: 5 });
+		connection.listen();
+		connection.dispose();
+		let count = 0;
+		let disposable = connection.onStatistics(() => count++);
+		setTimeout(() => {
+			assert.strictEqual(count, 0);
+			disposable.dispose();
+			done();
+		}, 30);
+	});
+
+	it('Heartbeat keeps connection responsive', (done) => {
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { heartbeat: { interval: 5, misses: 2 } });
+		let unresponsive = false;
+		client.onUnresponsive(() => unresponsive = true);
+		client.listen();
+		setTimeout(() => {
+			assert.strictEqual(unresponsive, false);
+			client.dispose();
+			server.dispose();
+			done();
+		}, 60);
+	});
+
+	it('Heartbeat detects unresponsive peer', (done) => {
+		let input = new TestDuplex('ds1');
+		let output = new TestDuplex('ds2');
+
+		// A peer answering the first ping only.
+		let peerWriter = new StreamMessageWriter(input);
+		let answered = 0;
+		new StreamMessageReader(output).listen((message: any) => {
+			if (message.method === '$/ping' && answered++ === 0) {
+				peerWriter.write(<NotificationMessage>{ jsonrpc: '2.0', method: '$/pong' });
+			}
+		});
+
+		let start = Date.now();
+		let client = hostConnection.createMessageConnection(input, output, hostConnection.NullLogger, { heartbeat: { interval: 5, misses: 3 } });
+		client.onUnresponsive(() => {
+			assert.ok(Date.now() - start >= 10);
+			client.dispose();
+			done();
+		});
+		client.listen();
+	});
+
+	it('Heartbeat ignores peer not answering pings', (done) => {
+		let input = new TestDuplex('ds1');
+		let output = new TestDuplex('ds2');
+
+		let client = hostConnection.createMessageConnection(input, output, hostConnection.NullLogger, { heartbeat: { interval: 5, misses: 2 } });
+		let unresponsive = false;
+		client.onUnresponsive(() => unresponsive = true);
+		client.listen();
+		setTimeout(() => {
+			assert.strictEqual(unresponsive, false);
+			client.dispose();
+			done();
+		}, 60);
+	});
+
+	it('Invalid request params are rejected', (done) => {
+		let validator = (params: any) => typeof params === 'string' ? undefined : 'expected a string';
+		let serverType = new RequestType<string, string, void, void>('test/validated', validator);
+		let clientType = new RequestType<any, string, void, void>('test/validated');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(serverType, (param) => param + param);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(clientType, 'foo').then((result) => {
+			assert.strictEqual(result, 'foofoo');
+			return client.sendRequest(clientType, { value: 'foo' });
+		}).then(() => {
+			assert.fail('Request should fail');
+		}, (error: ResponseError<any>) => {
+			assert.strictEqual(error.code, ErrorCodes.InvalidParams);
+			assert.strictEqual(error.message, 'Request test/validated has invalid parameters: expected a string');
+			done();
+		});
+	});
+
+	it('Invalid notification params are dropped', (done) => {
+		let validator = (params: any) => typeof params === 'number' ? undefined : 'expected a number';
+		let serverType = new NotificationType<number, void>('test/validated', validator);
+		let clientType = new NotificationType<any, void>('test/validated');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let errors: string[] = [];
+		let logger: hostConnection.Logger = { error: (message) => errors.push(message), warn: () => {}, info: () => {}, log: () => {} };
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, logger);
+		server.onNotification(serverType, (param) => {
+			assert.strictEqual(param, 1);
+			assert.deepStrictEqual(errors, ['Notification test/validated has invalid parameters: expected a number']);
+			done();
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		client.sendNotification(clientType, 'foo');
+		client.sendNotification(clientType, 1);
+	});
+
+	it('Progress iterator yields until the request finished', async () => {
+		let type = new RequestType<{ partialResultToken: string }, number[], void, void>('test/partial');
+		let progressType = new hostConnection.ProgressType<number[]>();
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (params) => {
+			server.sendProgress(progressType, params.partialResultToken, [1]);
+			server.sendProgress(progressType, params.partialResultToken, [2, 3]);
+			return [];
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		let partialResults = client.progressIterator(progressType, 'partial');
+		let result = client.sendRequest(type, { partialResultToken: 'partial' });
+		let received: number[][] = [];
+		for await (let partial of partialResults) {
+			received.push(partial);
+		}
+		assert.deepStrictEqual(received, [[1], [2, 3]]);
+		assert.deepStrictEqual(await result, []);
+		// The token can be used again once the iteration ended.
+		client.progressIterator(progressType, 'partial').return();
+	});
+
+	it('Request cancelled using an abort signal', (done) => {
+		let type = new RequestType<string, string, void, void>('test/hang');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (_param, token) => {
+			return new Promise<string>((resolve) => {
+				token.onCancellationRequested(() => resolve('cancelled'));
+			});
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		let source = new CancellationTokenSource();
+		let signal = CancellationToken.toAbortSignal(source.token);
+		client.sendRequest(type, 'foo', signal).then((result) => {
+			assert.strictEqual(result, 'cancelled');
+			done();
+		});
+		setTimeout(() => source.cancel(), 10);
+	});
+
+	it('Shared abort signal listeners are removed', async () => {
+		let type = new RequestType<string, string, void, void>('test/handle');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => param);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		let listeners = 0;
+		let signal = {
+			aborted: false,
+			addEventListener: () => listeners++,
+			removeEventListener: () => listeners--
+		};
+		await Promise.all([client.sendRequest(type, 'foo', signal), client.sendRequest(type, 'bar', { token: signal })]);
+		assert.strictEqual(listeners, 0);
+	});
+
+	it('Request cancelled using cancellation files', async () => {
+		let type = new RequestType<string, boolean, void, void>('test/cancelled');
+		let folder = path.join(os.tmpdir(), `jsonrpc-cancellation-${process.pid}-${Date.now()}`);
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, { cancellationStrategy: new hostConnection.FileCancellationStrategy(folder) });
+		// The cancellation notification is not dispatched yet when the handler runs.
+		server.onRequest(type, (_param, token) => token.isCancellationRequested);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger, { cancellationStrategy: new hostConnection.FileCancellationStrategy(folder) });
+		client.listen();
+		let source = new CancellationTokenSource();
+		let result = client.sendRequest(type, 'foo', source.token);
+		source.cancel();
+		assert.strictEqual(await result, true);
+		assert.deepStrictEqual(fs.readdirSync(folder), []);
+		fs.rmdirSync(folder);
+		client.dispose();
+		server.dispose();
+	});
+
+	it('Concurrent dispatch orders reads and writes', async () => {
+		let read = new RequestType<number, number, void, void>('test/read');
+		let write = new NotificationType<number, void>('test/write');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let methodKind = (method: string): hostConnection.MethodKind | undefined => method === read.method ? 'read' : method === write.method ? 'write' : undefined;
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger, { methodKind, maxConcurrentReads: 2 });
+		let version = 0;
+		let running = 0;
+		let maxRunning = 0;
+		let delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+		server.onRequest(read, async (ms) => {
+			let seen = version;
+			maxRunning = Math.max(maxRunning, ++running);
+			await delay(ms);
+			running--;
+			// The version didn't change while the read was running.
+			return seen === version ? seen : -1;
+		});
+		server.onNotification(write, async (value) => {
+			assert.strictEqual(running, 0);
+			await delay(10);
+			version = value;
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		let before = [client.sendRequest(read, 20), client.sendRequest(read, 10), client.sendRequest(read, 10)];
+		client.sendNotification(write, 1);
+		let after = client.sendRequest(read, 0);
+		assert.deepStrictEqual(await Promise.all(before), [0, 0, 0]);
+		assert.strictEqual(await after, 1);
+		assert.strictEqual(maxRunning, 2);
+	});
+
+	it('Parameter structures', async () => {
+		let byPosition = new RequestType<string, any, void, void>('test/byPosition', undefined, ParameterStructures.byPosition);
+		let byName = new RequestType2<number, number, number, void, void>('test/byName', ParameterStructures.byName, ['a', 'b']);
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let received: any[] = [];
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.addInterceptor({
+			incoming: (message, next) => {
+				if ((message as RequestMessage).method === 'test/star') {
+					received.push((message as RequestMessage).params);
+				}
+				next(message);
+			}
+		});
+		server.onRequest(() => null);
+		server.onRequest(byPosition, (param) => param);
+		server.onRequest(byName, (a, b) => a - b);
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		assert.strictEqual(await client.sendRequest(byPosition, 'foo'), 'foo');
+		assert.strictEqual(await client.sendRequest(byName, 3, 1), 2);
+		// Named parameters sent by a peer are unpacked into handler arguments.
+		assert.strictEqual(await client.sendRequest('test/byName', { b: 1, a: 5 }), 4);
+		await client.sendRequest('test/star', ParameterStructures.byPosition, { value: 1 });
+		await client.sendRequest('test/star', ParameterStructures.byName, { value: 1 });
+		assert.deepStrictEqual(received, [[{ value: 1 }], { value: 1 }]);
+		assert.throws(() => client.sendRequest('test/star', ParameterStructures.byName, 1, 2));
+		assert.throws(() => new RequestType2<number, number, number, void, void>('test/invalid', ParameterStructures.byName));
+	});
+
+	it('Disposable handlers', async () => {
+		let type = new RequestType<string, string, void, void>('test/handle');
+		let notification = new NotificationType<string, void>('test/notify');
+		let duplexStream1 = new TestDuplex('ds1');
+		let duplexStream2 = new TestDuplex('ds2');
+
+		let server = hostConnection.createMessageConnection(duplexStream2, duplexStream1, hostConnection.NullLogger);
+		server.onRequest(type, (param) => `first:${param}`);
+		let second = server.onRequest(type, (param) => `second:${param}`);
+		let received: string[] = [];
+		let done: () => void = () => {};
+		let notified = () => new Promise<void>(resolve => done = resolve);
+		let first = server.onNotification(notification, (value) => received.push(`first:${value}`));
+		server.onNotification(notification, (value) => {
+			received.push(`second:${value}`);
+			done();
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(duplexStream1, duplexStream2, hostConnection.NullLogger);
+		client.listen();
+		assert.strictEqual(await client.sendRequest(type, 'foo'), 'second:foo');
+		// Disposing the handler restores the previous one.
+		second.dispose();
+		assert.strictEqual(await client.sendRequest(type, 'foo'), 'first:foo');
+
+		let next = notified();
+		client.sendNotification(notification, 'a');
+		await next;
+		first.dispose();
+		next = notified();
+		client.sendNotification(notification, 'b');
+		await next;
+		assert.deepStrictEqual(received, ['first:a', 'second:a', 'second:b']);
+	});
 });
\ No newline at end of file
@@ -0,0 +1,138 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+
+import { RequestType, NotificationType } from '../messages';
+
+import * as hostConnection from '../main';
+
+describe('Connection Pair', () => {
+
+	let echo = new RequestType<string, string, void, void>('test/echo');
+	let tick = new NotificationType<number, void>('test/tick');
+
+	it('Request and response', async () => {
+		let [server, client] = hostConnection.createConnectionPair();
+		server.onRequest(echo, (param) => param);
+		server.listen();
+		client.listen();
+		assert.strictEqual(await client.sendRequest(echo, 'foo'), 'foo');
+		server.dispose();
+		client.dispose();
+	});
+
+	it('Messages are copied', (done) => {
+		let [server, client] = hostConnection.createConnectionPair();
+		let params = { value: 1 };
+		server.onNotification('test/object', (received: any) => {
+			assert.notStrictEqual(received, params);
+			assert.deepStrictEqual(received, { value: 1 });
+			done();
+		});
+		server.listen();
+		client.listen();
+		client.sendNotification('test/object', params);
+	});
+
+	it('Latency', async () => {
+		let [server, client] = hostConnection.createConnectionPair({ latency: 20 });
+		server.onRequest(echo, (param) => param);
+		server.listen();
+		client.listen();
+		let start = Date.now();
+		await client.sendRequest(echo, 'foo');
+		// Request and response are delayed.
+		assert.ok(Date.now() - start >= 35);
+		server.dispose();
+		client.dispose();
+	});
+
+	it('Loss and reordering', (done) => {
+		// Delays the second message after the third and loses the fourth.
+		let values = [0.9, 0.9, 0.9, 0.1, 0.9, 0.1, 0.9, 0.9];
+		let random = () => values.length > 0 ? values.shift()! : 0.9;
+		let [server, client] = hostConnection.createConnectionPair({ loss: 0.5, reorder: 0.5, random });
+		let received: number[] = [];
+		server.onNotification(tick, (value) => {
+			received.push(value);
+			if (value === 5) {
+				assert.deepStrictEqual(received, [1, 3, 2, 5]);
+				done();
+			}
+		});
+		server.listen();
+		client.listen();
+		for (let i = 1; i <= 5; i++) {
+			client.sendNotification(tick, i);
+		}
+	});
+
+	it('Read awaiting a request to the peer', async () => {
+		let read = new RequestType<string, string, void, void>('test/read');
+		let write = new NotificationType<string, void>('test/write');
+		let configuration = new RequestType<string, string, void, void>('test/configuration');
+		let methodKind = (method: string) => method === read.method ? 'read' : method === write.method ? 'write' : undefined;
+		let [server, client] = hostConnection.createConnectionPair({ strategy: { methodKind } });
+		let written: string[] = [];
+		server.onRequest(read, async (param) => {
+			// The write queued meanwhile must not block the response.
+			let value = await server.sendRequest(configuration, param);
+			return `${value}:${written.length}`;
+		});
+		server.onNotification(write, (value) => { written.push(value); });
+		client.onRequest(configuration, (param) => `configured ${param}`);
+		server.listen();
+		client.listen();
+		let result = client.sendRequest(read, 'foo');
+		client.sendNotification(write, 'bar');
+		assert.strictEqual(await result, 'configured foo:0');
+		server.dispose();
+		client.dispose();
+	});
+
+	it('Independent request passes a blocked read', async () => {
+		let read = new RequestType<string, string, void, void>('test/read');
+		let write = new RequestType<string, string, void, void>('test/write');
+		let independent = new RequestType<string, string, void, void>('test/independent');
+		let methodKind = (method: string) => method === read.method ? 'read' : method === write.method ? 'write' : undefined;
+		let [server, client] = hostConnection.createConnectionPair({ strategy: { methodKind } });
+		let release: () => void = () => {};
+		let finished: string[] = [];
+		server.onRequest(write, (param) => new Promise<string>((resolve) => {
+			release = () => {
+				finished.push(param);
+				resolve(param);
+			};
+		}));
+		server.onRequest(read, (param) => {
+			finished.push(param);
+			return param;
+		});
+		server.onRequest(independent, (param) => param);
+		server.listen();
+		client.listen();
+		let written = client.sendRequest(write, 'write');
+		let result = client.sendRequest(read, 'read');
+		// The read waits for the write. The independent request must not.
+		assert.strictEqual(await client.sendRequest(independent, 'independent'), 'independent');
+		assert.deepStrictEqual(finished, []);
+		release();
+		assert.strictEqual(await written, 'write');
+		assert.strictEqual(await result, 'read');
+		assert.deepStrictEqual(finished, ['write', 'read']);
+		server.dispose();
+		client.dispose();
+	});
+
+	it('Dispose closes the other connection', (done) => {
+		let [server, client] = hostConnection.createConnectionPair();
+		server.listen();
+		client.listen();
+		server.onClose(() => done());
+		client.dispose();
+	});
+});
@@ -0,0 +1,75 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+
+import { Emitter, Event } from '../events';
+
+describe('Events', () => {
+
+	it('Once', async () => {
+		let emitter = new Emitter<number>();
+		let value = Event.once(emitter.event);
+		emitter.fire(1);
+		emitter.fire(2);
+		assert.strictEqual(await value, 1);
+	});
+
+	it('Filter and map', () => {
+		let emitter = new Emitter<number>();
+		let received: string[] = [];
+		let subscription = Event.map(Event.filter(emitter.event, value => value % 2 === 0), value => `#${value}`)(value => received.push(value));
+		[1, 2, 3, 4].forEach(value => emitter.fire(value));
+		subscription.dispose();
+		emitter.fire(6);
+		assert.deepStrictEqual(received, ['#2', '#4']);
+	});
+
+	it('Debounce', (done) => {
+		let emitter = new Emitter<number>();
+		let received: number[] = [];
+		Event.debounce(emitter.event, 10)(value => received.push(value));
+		[1, 2, 3].forEach(value => emitter.fire(value));
+		setTimeout(() => {
+			assert.deepStrictEqual(received, [3]);
+			done();
+		}, 50);
+	});
+
+	it('Async iterable', async () => {
+		let emitter = new Emitter<number>();
+		let end = new Emitter<void>();
+		let values = Event.toAsyncIterable(emitter.event, end.event);
+		emitter.fire(1);
+		setTimeout(() => {
+			emitter.fire(2);
+			end.fire(undefined);
+			emitter.fire(3);
+		}, 10);
+		let received: number[] = [];
+		for await (let value of values) {
+			received.push(value);
+		}
+		assert.deepStrictEqual(received, [1, 2]);
+	});
+
+	it('Async iterable stops listening on break', async () => {
+		let emitter = new Emitter<number>();
+		let subscribed = 0;
+		let event: Event<number> = (listener) => {
+			subscribed++;
+			let subscription = emitter.event(listener);
+			return { dispose: () => { subscribed--; subscription.dispose(); } };
+		};
+		let values = Event.toAsyncIterable(event);
+		emitter.fire(1);
+		for await (let value of values) {
+			assert.strictEqual(value, 1);
+			break;
+		}
+		assert.strictEqual(subscribed, 0);
+	});
+});
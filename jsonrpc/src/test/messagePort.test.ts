@@ -0,0 +1,74 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { RequestType } from '../messages';
+import { MessagePortMessageReader } from '../messageReader';
+import { MessagePortMessageWriter } from '../messageWriter';
+
+import * as hostConnection from '../main';
+
+let workerThreads: any;
+try {
+	workerThreads = require('worker_threads');
+} catch (error) {
+	workerThreads = undefined;
+}
+
+describe('MessagePort', () => {
+
+	before(function () {
+		if (!workerThreads) {
+			this.skip();
+		}
+	});
+
+	it('Request / response over a message channel', (done) => {
+		let type = new RequestType<{ value: number[] }, number, void, void>('test/sum');
+		let channel = new workerThreads.MessageChannel();
+
+		let server = hostConnection.createMessageConnection(new MessagePortMessageReader(channel.port1), new MessagePortMessageWriter(channel.port1), hostConnection.NullLogger);
+		server.onRequest(type, (params) => {
+			return params.value.reduce((a, b) => a + b, 0);
+		});
+		server.listen();
+
+		let client = hostConnection.createMessageConnection(new MessagePortMessageReader(channel.port2), new MessagePortMessageWriter(channel.port2), hostConnection.NullLogger);
+		client.listen();
+		client.sendRequest(type, { value: [1, 2, 3] }).then((result) => {
+			assert.strictEqual(result, 6);
+			channel.port1.close();
+		});
+		client.onClose(() => {
+			done();
+		});
+	});
+
+	it('Detects worker exit', (done) => {
+		let type = new RequestType<string, string, void, void>('test/echo');
+		let mainModule = path.join(__dirname, '..', 'main.js');
+		let worker = new workerThreads.Worker(`
+			const { parentPort } = require('worker_threads');
+			const rpc = require(${JSON.stringify(mainModule)});
+			const connection = rpc.createMessageConnection(new rpc.MessagePortMessageReader(parentPort), new rpc.MessagePortMessageWriter(parentPort));
+			connection.onRequest('test/echo', (param) => param);
+			connection.onNotification('test/exit', () => process.exit(0));
+			connection.listen();
+		`, { eval: true });
+
+		let client = hostConnection.createMessageConnection(new MessagePortMessageReader(worker), new MessagePortMessageWriter(worker), hostConnection.NullLogger);
+		client.onClose(() => {
+			done();
+		});
+		client.listen();
+		client.sendRequest(type, 'foo').then((result) => {
+			assert.strictEqual(result, 'foo');
+			client.sendNotification('test/exit');
+		});
+	});
+});
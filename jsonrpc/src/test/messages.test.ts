@@ -9,13 +9,15 @@ import * as assert from 'assert';
 import { Writable, Readable } from 'stream';
 import { inherits } from 'util';
 
-import { RequestMessage } from '../messages';
+import { RequestMessage, NotificationMessage, ResponseError, ErrorCodes } from '../messages';
 import { StreamMessageWriter } from '../messageWriter';
 import { StreamMessageReader } from '../messageReader';
+import { ContentEncodings } from '../encoding';
 
 interface TestWritable extends Writable {
 	constructor: Function;
 	readonly data: string;
+	readonly chunks: (string | Buffer)[];
 }
 
 interface TestWritableConstructor {
@@ -26,10 +28,12 @@ let TestWritable: TestWritableConstructor = function (): TestWritableConstructor
 	function TestWritable(this: any): void {
 		Writable.call(this);
 		this.data = '';
+		this.chunks = [];
 	}
 	inherits(TestWritable, Writable);
 	TestWritable.prototype._write = function (this: any, chunk: string | Buffer, _encoding: string, done: Function) {
 		this.data += chunk.toString();
+		this.chunks.push(chunk);
 		done();
 	};
 	return (<any>TestWritable) as TestWritableConstructor;
@@ -81,4 +85,239 @@ describe('Messages', () => {
 		});
 		readable.push(partOne);
 	});
+
+	it('Writing and reading gzip encoded', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let writable = new TestWritable();
+		let writer = new StreamMessageWriter(writable, { contentEncoders: ContentEncodings.all });
+		writer.setPeerAcceptEncoding(['gzip']);
+		writer.setAcceptEncoding(['deflate']);
+		let request: RequestMessage = {
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'example',
+			params: 'x'.repeat(1000)
+		};
+		writer.write(request);
+		writable.end();
+		assert.ok(writable.data.indexOf('Content-Encoding: gzip\r\n') !== -1);
+		let reader = new StreamMessageReader(readable, { contentDecoders: ContentEncodings.all });
+		let accepted: string[] | undefined;
+		reader.onAcceptEncoding((names) => accepted = names);
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			assert.equal(message.params, request.params);
+			assert.deepEqual(accepted, ['deflate']);
+			done();
+		});
+		for (let chunk of writable.chunks) {
+			readable.push(chunk);
+		}
+		readable.push(null);
+	});
+
+	it('Skips messages failing to decode', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable, { contentDecoders: ContentEncodings.all });
+		let errors: Error[] = [];
+		reader.onError((error) => errors.push(error));
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			assert.equal(errors.length, 2);
+			done();
+		});
+		readable.push('Content-Length: 3\r\nContent-Encoding: br\r\n\r\nabc');
+		readable.push('Content-Length: 3\r\nContent-Encoding: gzip\r\n\r\nabc');
+		readable.push(data);
+		readable.push(null);
+	});
+
+	it('Read in single byte chunks', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable);
+		let received: number[] = [];
+		reader.listen((message: RequestMessage) => {
+			received.push(message.id as number);
+			if (received.length === 2) {
+				assert.deepEqual(received, [1, 2]);
+				done();
+			}
+		});
+		let bytes = Buffer.from(data + data.replace('"id":1', '"id":2'), 'ascii');
+		for (let i = 0; i < bytes.length; i++) {
+			readable.push(bytes.slice(i, i + 1));
+		}
+		readable.push(null);
+	});
+
+	it('Skips messages exceeding the maximal size', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable, { maxMessageSize: 100 });
+		let errors: Error[] = [];
+		reader.onError((error) => errors.push(error));
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			assert.equal(errors.length, 1);
+			assert.ok(errors[0] instanceof ResponseError);
+			assert.equal((errors[0] as ResponseError<void>).code, ErrorCodes.MessageReadError);
+			done();
+		});
+		let large = JSON.stringify({ jsonrpc: '2.0', method: 'large', params: 'x'.repeat(1000) });
+		readable.push(`Content-Length: ${large.length}\r\n\r\n${large.substr(0, 500)}`);
+		readable.push(large.substr(500) + data);
+		readable.push(null);
+	});
+
+	it('Limits the decoded size of compressed messages', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable, { contentDecoders: ContentEncodings.all, maxMessageSize: 1000 });
+		let errors: Error[] = [];
+		reader.onError((error) => errors.push(error));
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			assert.equal(errors.length, 1);
+			assert.equal((errors[0] as ResponseError<void>).code, ErrorCodes.MessageReadError);
+			done();
+		});
+		let large = ContentEncodings.gzip.encode(Buffer.from(JSON.stringify({ jsonrpc: '2.0', method: 'large', params: 'x'.repeat(100000) })));
+		assert.ok(large.length < 1000);
+		readable.push(`Content-Length: ${large.length}\r\nContent-Encoding: gzip\r\n\r\n`);
+		readable.push(large);
+		readable.push(data);
+		readable.push(null);
+	});
+
+	it('Limits the header size', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable);
+		let errors: Error[] = [];
+		reader.onError((error) => errors.push(error));
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			assert.equal(errors.length, 1);
+			done();
+		});
+		readable.push('x'.repeat(100000));
+		readable.push(data);
+		readable.push(null);
+	});
+
+	it('Reads unknown content types as JSON', (done) => {
+		let readable = new Readable();
+		readable._read = () => {};
+		let reader = new StreamMessageReader(readable);
+		let errors: Error[] = [];
+		reader.onError((error) => errors.push(error));
+		reader.listen((message: RequestMessage) => {
+			assert.equal(message.id, 1);
+			// The undecodable message got skipped.
+			assert.equal(errors.length, 1);
+			assert.equal((errors[0] as ResponseError<void>).code, ErrorCodes.MessageReadError);
+			done();
+		});
+		readable.push('Content-Length: 5\r\nContent-Type: application/msgpack\r\n\r\n{"a":');
+		readable.push(data.replace('\r\n\r\n', '\r\nContent-Type: application/json; charset=utf-8\r\n\r\n'));
+		readable.push(null);
+	});
+
+	it('Writing falls back to identity', () => {
+		let writable = new TestWritable();
+		let writer = new StreamMessageWriter(writable, { contentEncoders: ContentEncodings.all });
+		writer.setPeerAcceptEncoding(['br']);
+		let request: RequestMessage = {
+			jsonrpc: '2.0',
+			id: 1,
+			method: 'example'
+		};
+		writer.write(request);
+		writable.end();
+		assert.equal(writable.data, data);
+	});
+
+	it('Writing honours drain', (done) => {
+		let written: string[] = [];
+		let callbacks: Function[] = [];
+		let writable = new Writable({
+			highWaterMark: 10,
+			write: (chunk: Buffer, _encoding: string, callback: Function) => {
+				written.push(chunk.toString());
+				callbacks.push(callback);
+			}
+		});
+		let writer = new StreamMessageWriter(writable, {
+			highWaterMark: 50,
+			lowPriority: (message: NotificationMessage) => message.method === 'progress' ? 'progress' : message.method === 'log'
+		});
+		let notification = (method: string, params: any): NotificationMessage => ({ jsonrpc: '2.0', method, params });
+		writer.write(notification('first', 0));
+		// The stream wants to drain. So the following messages are pending.
+		writer.write(notification('second', 0));
+		assert.ok(writer.pendingBytes > 50);
+		writer.write(notification('log', 0));
+		writer.write(notification('progress', 1));
+		writer.write(notification('progress', 2));
+		writer.write(notification('third', 0));
+		let pendingBytes = writer.pendingBytes;
+		assert.equal(written.length, 1);
+		let release = () => {
+			if (callbacks.length > 0) {
+				callbacks.shift()!();
+				setImmediate(release);
+			} else {
+				let methods = written.map(data => JSON.parse(data.substr(data.indexOf('{'))).method);
+				let params = written.map(data => JSON.parse(data.substr(data.indexOf('{'))).params);
+				assert.deepEqual(methods, ['first', 'second', 'progress', 'third']);
+				assert.equal(params[2], 2);
+				assert.equal(writer.pendingBytes, 0);
+				assert.equal(writer.bytesWritten, pendingBytes + written[0].length);
+				done();
+			}
+		};
+		release();
+	});
+
+	it('Writing reports stalls', (done) => {
+		let writable = new Writable({
+			highWaterMark: 10,
+			write: () => {}
+		});
+		let writer = new StreamMessageWriter(writable, { stallTimeout: 10 });
+		writer.onError(([error]) => {
+			assert.ok(error.message.indexOf('stalled') !== -1);
+			assert.ok(/with [1-9]\d* bytes pending/.test(error.message), error.message);
+			writer.dispose();
+			done();
+		});
+		writer.write({ jsonrpc: '2.0', method: 'first' } as NotificationMessage);
+		writer.write({ jsonrpc: '2.0', method: 'second' } as NotificationMessage);
+	});
+
+	it('Writing ignores stalls by default', () => {
+		let writable = new Writable({
+			highWaterMark: 10,
+			write: () => {}
+		});
+		let writer = new StreamMessageWriter(writable);
+		let timers: number[] = [];
+		let originalSetTimeout = global.setTimeout;
+		(global as any).setTimeout = (callback: () => void, ms: number) => {
+			timers.push(ms);
+			return originalSetTimeout(callback, ms);
+		};
+		try {
+			writer.write({ jsonrpc: '2.0', method: 'first' } as NotificationMessage);
+			writer.write({ jsonrpc: '2.0', method: 'second' } as NotificationMessage);
+		} finally {
+			global.setTimeout = originalSetTimeout;
+		}
+		assert.strictEqual(writer.pendingBytes > 0, true);
+		assert.deepStrictEqual(timers, []);
+		writer.dispose();
+	});
 });
\ No newline at end of file
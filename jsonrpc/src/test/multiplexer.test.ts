@@ -0,0 +1,177 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+
+import { RequestType, NotificationType } from '../messages';
+import { StreamMessageReader } from '../messageReader';
+import { StreamMessageWriter } from '../messageWriter';
+import { MessageMultiplexer, MultiplexerOptions } from '../multiplexer';
+
+import * as hostConnection from '../main';
+
+describe('Multiplexer', () => {
+
+	let echo = new RequestType<string, string, void, void>('test/echo');
+	let tick = new NotificationType<number, void>('test/tick');
+
+	function createMultiplexers(options?: MultiplexerOptions): [MessageMultiplexer, MessageMultiplexer] {
+		let up = new PassThrough();
+		let down = new PassThrough();
+		return [
+			new MessageMultiplexer(new StreamMessageReader(up), new StreamMessageWriter(down), options),
+			new MessageMultiplexer(new StreamMessageReader(down), new StreamMessageWriter(up), options)
+		];
+	}
+
+	function createConnection(multiplexer: MessageMultiplexer, channel: string): hostConnection.MessageConnection {
+		let [reader, writer] = multiplexer.openChannel(channel);
+		return hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+	}
+
+	it('Channels are independent', async () => {
+		let [server, client] = createMultiplexers();
+		let servers = ['a', 'b'].map((channel) => {
+			let connection = createConnection(server, channel);
+			connection.onRequest(echo, (param) => `${channel}:${param}`);
+			connection.listen();
+			return connection;
+		});
+		let clients = ['a', 'b'].map((channel) => {
+			let connection = createConnection(client, channel);
+			connection.listen();
+			return connection;
+		});
+		let results = await Promise.all(clients.map(connection => connection.sendRequest(echo, 'foo')));
+		assert.deepStrictEqual(results, ['a:foo', 'b:foo']);
+		servers.concat(clients).forEach(connection => connection.dispose());
+		server.dispose();
+		client.dispose();
+	});
+
+	it('Closing a channel keeps the others open', (done) => {
+		let [server, client] = createMultiplexers();
+		let serverA = createConnection(server, 'a');
+		let serverB = createConnection(server, 'b');
+		serverB.onRequest(echo, (param) => param);
+		serverA.listen();
+		serverB.listen();
+		let clientA = createConnection(client, 'a');
+		let clientB = createConnection(client, 'b');
+		clientA.listen();
+		clientB.listen();
+		serverA.onClose(() => {
+			clientB.sendRequest(echo, 'foo').then((result) => {
+				assert.strictEqual(result, 'foo');
+				server.dispose();
+				client.dispose();
+				done();
+			});
+		});
+		clientA.dispose();
+	});
+
+	it('Busy channel does not starve others', (done) => {
+		let [server, client] = createMultiplexers();
+		let busyReceived = 0;
+		let busy = createConnection(server, 'busy');
+		busy.onNotification(tick, () => busyReceived++);
+		busy.listen();
+		let quiet = createConnection(server, 'quiet');
+		quiet.onNotification(tick, () => {
+			assert.ok(busyReceived < 1000, `Received ${busyReceived} busy messages first`);
+			server.dispose();
+			client.dispose();
+			done();
+		});
+		quiet.listen();
+
+		let busyClient = createConnection(client, 'busy');
+		let quietClient = createConnection(client, 'quiet');
+		busyClient.listen();
+		quietClient.listen();
+		for (let i = 0; i < 1000; i++) {
+			busyClient.sendNotification(tick, i);
+		}
+		quietClient.sendNotification(tick, 0);
+	});
+
+	it('Limits messages buffered for unopened channels', (done) => {
+		let [server, client] = createMultiplexers({ maxUnopenedMessages: 2 });
+		let [observer] = server.openChannel('observer');
+		observer.listen(() => {});
+		observer.onError((error) => {
+			assert.ok(/unopened channel a/.test(error.message));
+			let received: number[] = [];
+			let a = createConnection(server, 'a');
+			a.onNotification(tick, (value) => {
+				received.push(value);
+			});
+			a.listen();
+			setTimeout(() => {
+				assert.deepStrictEqual(received, [0, 1]);
+				server.dispose();
+				client.dispose();
+				done();
+			}, 10);
+		});
+		let clientA = createConnection(client, 'a');
+		clientA.listen();
+		for (let i = 0; i < 3; i++) {
+			clientA.sendNotification(tick, i);
+		}
+	});
+
+	it('Drops messages for channels closed locally', (done) => {
+		let [server, client] = createMultiplexers();
+		let serverA = createConnection(server, 'a');
+		serverA.listen();
+		let clientA = createConnection(client, 'a');
+		clientA.listen();
+		clientA.onClose(() => {
+			setTimeout(() => {
+				let reopened = createConnection(server, 'a');
+				reopened.onNotification(tick, (value) => {
+					assert.strictEqual(value, 2);
+					server.dispose();
+					client.dispose();
+					done();
+				});
+				reopened.listen();
+				let clientReopened = createConnection(client, 'a');
+				clientReopened.listen();
+				clientReopened.sendNotification(tick, 2);
+			}, 10);
+		});
+		clientA.sendNotification(tick, 1);
+		serverA.dispose();
+	});
+
+	it('Delivers messages of a channel the other side reopened first', (done) => {
+		let [server, client] = createMultiplexers();
+		let serverA = createConnection(server, 'a');
+		serverA.listen();
+		let clientA = createConnection(client, 'a');
+		clientA.listen();
+		clientA.onClose(() => {
+			let clientReopened = createConnection(client, 'a');
+			clientReopened.listen();
+			clientReopened.sendNotification(tick, 2);
+			setTimeout(() => {
+				let reopened = createConnection(server, 'a');
+				reopened.onNotification(tick, (value) => {
+					assert.strictEqual(value, 2);
+					server.dispose();
+					client.dispose();
+					done();
+				});
+				reopened.listen();
+			}, 10);
+		});
+		serverA.dispose();
+	});
+});
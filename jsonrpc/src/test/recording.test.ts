@@ -0,0 +1,128 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+import { RequestType, NotificationType, RequestMessage, NotificationMessage, ErrorCodes } from '../messages';
+import { StreamMessageReader } from '../messageReader';
+import { StreamMessageWriter } from '../messageWriter';
+import { SessionRecorder, readSession, replaySession } from '../recording';
+
+import * as hostConnection from '../main';
+
+describe('Recording', () => {
+
+	let add = new RequestType<number[], number, void, void>('test/add');
+	let log = new NotificationType<string, void>('test/log');
+	let file: string;
+
+	beforeEach(() => {
+		file = path.join(os.tmpdir(), `jsonrpc-recording-${process.pid}-${Date.now()}.jsonl`);
+	});
+
+	afterEach(() => {
+		if (fs.existsSync(file)) {
+			fs.unlinkSync(file);
+		}
+	});
+
+	function createServer(input: PassThrough, output: PassThrough, offset: number): hostConnection.MessageConnection {
+		let server = hostConnection.createMessageConnection(input, output, hostConnection.NullLogger);
+		server.onRequest(add, (params) => params.reduce((a, b) => a + b, offset));
+		server.onNotification(log, () => {});
+		server.listen();
+		return server;
+	}
+
+	function record(): Thenable<void> {
+		let up = new PassThrough();
+		let down = new PassThrough();
+		let server = createServer(up, down, 0);
+		let client = hostConnection.createMessageConnection(down, up, hostConnection.NullLogger);
+		let recorder = new SessionRecorder(file);
+		client.record(recorder);
+		client.listen();
+		return client.sendRequest(add, [1, 2]).then(() => {
+			client.sendNotification(log, 'hello');
+			return client.sendRequest(add, [3, 4]);
+		}).then(() => {
+			recorder.dispose();
+			client.dispose();
+			server.dispose();
+		});
+	}
+
+	it('Records messages with direction and timestamp', () => {
+		return record().then(() => {
+			let session = readSession(file);
+			assert.deepStrictEqual(session.map(entry => entry.type), [
+				'send-request', 'receive-response', 'send-notification', 'send-request', 'receive-response'
+			]);
+			for (let entry of session) {
+				assert.ok(typeof entry.timestamp === 'number');
+			}
+			assert.strictEqual((session[1].message as any).result, 3);
+		});
+	});
+
+	it('Replays a session without differences', () => {
+		return record().then(() => {
+			let up = new PassThrough();
+			let down = new PassThrough();
+			let server = createServer(up, down, 0);
+			return replaySession(readSession(file), new StreamMessageReader(down), new StreamMessageWriter(up)).then((result) => {
+				server.dispose();
+				assert.strictEqual(result.requests, 2);
+				assert.strictEqual(result.differences.length, 0);
+			});
+		});
+	});
+
+	it('Replays a session with differences', () => {
+		return record().then(() => {
+			let up = new PassThrough();
+			let down = new PassThrough();
+			let server = createServer(up, down, 10);
+			return replaySession(readSession(file), new StreamMessageReader(down), new StreamMessageWriter(up)).then((result) => {
+				server.dispose();
+				assert.strictEqual(result.differences.length, 2);
+				assert.strictEqual(result.differences[0].expected.result, 3);
+				assert.strictEqual(result.differences[0].actual!.result, 13);
+			});
+		});
+	});
+
+	it('Records received messages which are not dispatched', (done) => {
+		let up = new PassThrough();
+		let down = new PassThrough();
+		let server = hostConnection.createMessageConnection(up, down, hostConnection.NullLogger, {
+			cancelUndispatched: (message) => ({ jsonrpc: '2.0', id: (message as RequestMessage).id, error: { code: ErrorCodes.RequestCancelled, message: 'cancelled' } })
+		});
+		server.onRequest(add, (params) => params.reduce((a, b) => a + b, 0));
+		let entries: any[] = [];
+		server.record({ log: (entry: any) => entries.push(entry) });
+		server.listen();
+
+		new StreamMessageReader(down).listen(() => {
+			assert.deepStrictEqual(entries.map(entry => [entry.type, entry.message.method]), [
+				['receive-notification', log.method],
+				['receive-request', add.method],
+				['receive-notification', '$/cancelRequest'],
+				['send-response', undefined]
+			]);
+			server.dispose();
+			done();
+		});
+		let writer = new StreamMessageWriter(up);
+		writer.write(<NotificationMessage>{ jsonrpc: '2.0', method: log.method, params: 'unhandled' });
+		writer.write(<RequestMessage>{ jsonrpc: '2.0', id: 1, method: add.method, params: [1, 2] });
+		writer.write(<NotificationMessage>{ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+	});
+});
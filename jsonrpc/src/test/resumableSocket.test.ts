@@ -0,0 +1,176 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import { Server, Socket, createServer, createConnection } from 'net';
+
+import { RequestType, NotificationType } from '../messages';
+import { createClientResumableSocketTransport, createServerResumableSocketTransport } from '../resumableSocketSupport';
+
+import * as hostConnection from '../main';
+
+function randomPort(): number {
+	return 30000 + Math.floor(Math.random() * 20000);
+}
+
+/**
+ * A TCP proxy forwarding to a local port whose connections can be killed.
+ */
+class Proxy {
+
+	private server: Server;
+	private sockets: Socket[] = [];
+
+	constructor(target: number) {
+		this.server = createServer((socket) => {
+			let upstream = createConnection(target, '127.0.0.1');
+			for (let [from, to] of [[socket, upstream], [upstream, socket]]) {
+				from.on('error', () => { });
+				from.on('close', () => to.destroy());
+				from.pipe(to);
+			}
+			this.sockets.push(socket, upstream);
+		});
+	}
+
+	public listen(port: number): Promise<void> {
+		return new Promise((resolve) => this.server.listen(port, '127.0.0.1', resolve));
+	}
+
+	public kill(): void {
+		this.sockets.forEach(socket => socket.destroy());
+		this.sockets = [];
+	}
+
+	public close(): void {
+		this.server.close();
+		this.kill();
+	}
+}
+
+describe('Resumable Socket', () => {
+
+	let options = { reconnectDelay: 10 };
+
+	it('Pending request survives dropped socket', (done) => {
+		let type = new RequestType<string, string, void, void>('test/handleSingleRequest');
+		let port = randomPort();
+		let proxy = new Proxy(port);
+		createClientResumableSocketTransport(port, options).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				client.listen();
+				client.sendRequest(type, 'foo').then((result) => {
+					assert.strictEqual(result, 'foofoo');
+					client.dispose();
+					server.dispose();
+					proxy.close();
+					done();
+				});
+			});
+			let server: hostConnection.MessageConnection;
+			proxy.listen(port + 1).then(() => {
+				let [serverReader, serverWriter] = createServerResumableSocketTransport(port + 1, options);
+				server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+				server.onRequest(type, (p1) => {
+					proxy.kill();
+					return new Promise<string>(resolve => setTimeout(() => resolve(p1 + p1), 20));
+				});
+				server.listen();
+			});
+		});
+	});
+
+	it('Messages in flight are replayed in order', (done) => {
+		let type = new NotificationType<number, void>('test/notification');
+		let port = randomPort();
+		let proxy = new Proxy(port);
+		createClientResumableSocketTransport(port, options).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				let received: number[] = [];
+				client.onNotification(type, (value) => {
+					received.push(value);
+					if (received.length === 100) {
+						assert.deepStrictEqual(received, Array.from({ length: 100 }, (_value, index) => index));
+						client.dispose();
+						server.dispose();
+						proxy.close();
+						done();
+					}
+				});
+				client.listen();
+			});
+			let server: hostConnection.MessageConnection;
+			proxy.listen(port + 1).then(() => {
+				let [serverReader, serverWriter] = createServerResumableSocketTransport(port + 1, options);
+				server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+				server.listen();
+				setTimeout(() => {
+					// Kill the sockets while the messages are still in their buffers.
+					for (let i = 0; i < 50; i++) {
+						server.sendNotification(type, i);
+					}
+					proxy.kill();
+					for (let i = 50; i < 100; i++) {
+						server.sendNotification(type, i);
+					}
+				}, 50);
+			});
+		});
+	});
+
+	it('Closes if the socket does not reconnect', (done) => {
+		let port = randomPort();
+		let proxy = new Proxy(port);
+		createClientResumableSocketTransport(port, { reconnectDelay: 10, reconnectTimeout: 100 }).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				client.onClose(() => {
+					client.dispose();
+					server.dispose();
+					done();
+				});
+				client.listen();
+				proxy.close();
+			});
+			let server: hostConnection.MessageConnection;
+			proxy.listen(port + 1).then(() => {
+				let [serverReader, serverWriter] = createServerResumableSocketTransport(port + 1, { reconnectDelay: 10, reconnectTimeout: 100 });
+				server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+				server.listen();
+			});
+		});
+	});
+
+	it('Closes on malformed frame', (done) => {
+		let port = randomPort();
+		createClientResumableSocketTransport(port, options).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				let errors: Error[] = [];
+				client.onError(([error]) => errors.push(error));
+				client.onClose(() => {
+					assert.ok(errors.some(error => /malformed frame/.test(error.message)));
+					client.dispose();
+					socket.destroy();
+					done();
+				});
+				client.listen();
+			});
+			let write = (frame: any) => {
+				let content = Buffer.from(JSON.stringify(frame), 'utf8');
+				socket.write(`Content-Length: ${content.length}\r\n\r\n`);
+				socket.write(content);
+			};
+			let socket = createConnection(port, '127.0.0.1', () => {
+				write({ session: 'session', ack: 0 });
+				write({ seq: 1, ack: 'none', message: {} });
+			});
+			socket.on('error', () => { });
+		});
+	});
+});
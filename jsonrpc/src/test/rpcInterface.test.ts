@@ -0,0 +1,66 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+
+import { RequestType, RequestType0, NotificationType, NotificationType0 } from '../messages';
+import { createRpcInterface } from '../rpcInterface';
+
+import * as hostConnection from '../main';
+
+describe('RPC Interface', () => {
+
+	let calculator = createRpcInterface({
+		add: new RequestType<number[], number, void, void>('test/add'),
+		reset: new RequestType0<boolean, void, void>('test/reset'),
+		log: new NotificationType<string, void>('test/log'),
+		exit: new NotificationType0<void>('test/exit')
+	});
+
+	function createConnections(): [hostConnection.MessageConnection, hostConnection.MessageConnection] {
+		let up = new PassThrough();
+		let down = new PassThrough();
+		let server = hostConnection.createMessageConnection(up, down, hostConnection.NullLogger);
+		let client = hostConnection.createMessageConnection(down, up, hostConnection.NullLogger);
+		return [server, client];
+	}
+
+	it('Proxy calls implementation', (done) => {
+		let [server, client] = createConnections();
+		let logged: string[] = [];
+		calculator.implement(server, {
+			add: (params) => params.reduce((a, b) => a + b, 0),
+			reset: () => true,
+			log: (message) => logged.push(message),
+			exit: () => {
+				assert.deepStrictEqual(logged, ['hello']);
+				server.dispose();
+				client.dispose();
+				done();
+			}
+		});
+		server.listen();
+		client.listen();
+		let proxy = calculator.createProxy(client);
+		proxy.add([1, 2, 3]).then((sum) => {
+			assert.strictEqual(sum, 6);
+			return proxy.reset();
+		}).then((result) => {
+			assert.strictEqual(result, true);
+			proxy.log('hello');
+			proxy.exit();
+		});
+	});
+
+	it('Missing implementation throws', () => {
+		let [server, client] = createConnections();
+		let handlers: any = { add: () => 0, reset: () => true };
+		assert.throws(() => calculator.implement(server, handlers), /log \(test\/log\), exit \(test\/exit\)/);
+		server.dispose();
+		client.dispose();
+	});
+});
@@ -0,0 +1,62 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+import { createServer } from 'net';
+
+import { RequestType } from '../messages';
+import { generateRandomPipeName, createPipeListener, createServerPipeTransport } from '../pipeSupport';
+import { createTransportListener } from '../transportListener';
+
+import * as hostConnection from '../main';
+
+describe('Transport Listener', () => {
+
+	let echo = new RequestType<string, string, void, void>('test/echo');
+
+	function connect(pipeName: string): hostConnection.MessageConnection {
+		let [reader, writer] = createServerPipeTransport(pipeName);
+		let connection = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+		connection.listen();
+		return connection;
+	}
+
+	it('Serves several clients', async () => {
+		let pipeName = generateRandomPipeName();
+		let listener = hostConnection.createMessageConnectionListener(await createPipeListener(pipeName), hostConnection.NullLogger);
+		let accepted = 0;
+		listener.onConnection((connection) => {
+			let client = ++accepted;
+			connection.onRequest(echo, (param) => `${client}:${param}`);
+			connection.listen();
+		});
+
+		let clients = [connect(pipeName), connect(pipeName)];
+		let results = await Promise.all(clients.map(client => client.sendRequest(echo, 'foo')));
+		assert.deepStrictEqual(results.sort(), ['1:foo', '2:foo']);
+		assert.strictEqual(listener.connections.length, 2);
+
+		// Disconnecting a client only disposes its connection.
+		let disposed = new Promise<void>(resolve => listener.connections.forEach(connection => connection.onDispose(() => resolve())));
+		clients[0].dispose();
+		await disposed;
+		assert.strictEqual(listener.connections.length, 1);
+		listener.dispose();
+		assert.strictEqual(listener.connections.length, 0);
+		clients[1].dispose();
+	});
+
+	it('Reports server errors after listening', async () => {
+		let pipeName = generateRandomPipeName();
+		let server = createServer();
+		let listener = await createTransportListener(server, (callback) => server.listen(pipeName, callback), 'utf-8');
+		let errors: Error[] = [];
+		listener.onError(error => errors.push(error));
+		server.emit('error', new Error('EMFILE'));
+		assert.deepStrictEqual(errors.map(error => error.message), ['EMFILE']);
+		listener.dispose();
+	});
+});
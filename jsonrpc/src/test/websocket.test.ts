@@ -0,0 +1,116 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as assert from 'assert';
+
+import { RequestType, NotificationType } from '../messages';
+import { createClientWebSocketTransport, createServerWebSocketTransport } from '../websocketSupport';
+
+import * as hostConnection from '../main';
+
+function randomPort(): number {
+	return 30000 + Math.floor(Math.random() * 20000);
+}
+
+describe('WebSocket', () => {
+
+	it('Request / response', (done) => {
+		let type = new RequestType<string, string, void, void>('test/handleSingleRequest');
+		let port = randomPort();
+		createClientWebSocketTransport(port).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				client.listen();
+				client.sendRequest(type, 'foo').then((result) => {
+					assert.strictEqual(result, 'foofoo');
+					client.dispose();
+					server.dispose();
+					done();
+				});
+			});
+			let [serverReader, serverWriter] = createServerWebSocketTransport(port);
+			let server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+			server.onRequest(type, (p1) => p1 + p1);
+			server.listen();
+		});
+	});
+
+	it('Large message', (done) => {
+		let type = new NotificationType<string, void>('test/large');
+		let port = randomPort();
+		let value = 'x'.repeat(200000);
+		createClientWebSocketTransport(port).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				client.onNotification(type, (param) => {
+					assert.strictEqual(param, value);
+					client.dispose();
+					server.dispose();
+					done();
+				});
+				client.listen();
+			});
+			let [serverReader, serverWriter] = createServerWebSocketTransport(port);
+			let server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+			server.listen();
+			server.sendNotification(type, value);
+		});
+	});
+
+	it('Closes on too big message', (done) => {
+		let type = new NotificationType<string, void>('test/large');
+		let port = randomPort();
+		createClientWebSocketTransport(port, { maxMessageSize: 1024 }).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				let errors: Error[] = [];
+				client.onError(([error]) => errors.push(error));
+				client.onNotification(type, () => {
+					assert.fail('Too big message got delivered.');
+				});
+				client.onClose(() => {
+					assert.ok(errors.some(error => /maximal message size of 1024 bytes/.test(error.message)));
+					server.dispose();
+					done();
+				});
+				client.listen();
+			});
+			let [serverReader, serverWriter] = createServerWebSocketTransport(port);
+			let server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+			server.listen();
+			server.sendNotification(type, 'x'.repeat(2048));
+		});
+	});
+
+	it('Propagates close', (done) => {
+		let port = randomPort();
+		createClientWebSocketTransport(port).then((transport) => {
+			transport.onConnected().then(([reader, writer]) => {
+				let client = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+				client.onClose(() => {
+					done();
+				});
+				client.listen();
+				server.dispose();
+			});
+			let [serverReader, serverWriter] = createServerWebSocketTransport(port);
+			let server = hostConnection.createMessageConnection(serverReader, serverWriter, hostConnection.NullLogger);
+			server.listen();
+		});
+	});
+
+	it('Reports connect failure', (done) => {
+		let [reader, writer] = createServerWebSocketTransport(randomPort());
+		let connection = hostConnection.createMessageConnection(reader, writer, hostConnection.NullLogger);
+		let errors = 0;
+		connection.onError(() => errors++);
+		connection.onClose(() => {
+			assert.ok(errors > 0);
+			done();
+		});
+		connection.listen();
+	});
+});
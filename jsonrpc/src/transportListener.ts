@@ -0,0 +1,67 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Server, Socket } from 'net';
+
+import { MessageReader, SocketMessageReader, MessageReaderOptions } from './messageReader';
+import { MessageWriter, SocketMessageWriter, MessageWriterOptions } from './messageWriter';
+import { Event, Emitter, Disposable } from './events';
+
+/**
+ * Accepts any number of clients. Every accepted client gets its own
+ * reader / writer pair.
+ */
+export interface TransportListener extends Disposable {
+	/**
+	 * Fires with the reader and writer of an accepted client.
+	 */
+	readonly onConnection: Event<[MessageReader, MessageWriter]>;
+
+	/**
+	 * Fires if the server fails after it started listening, for example if
+	 * accepting a client failed. The listener keeps accepting clients.
+	 */
+	readonly onError: Event<Error>;
+
+	/**
+	 * Stops accepting new clients. Already accepted clients stay connected.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Starts accepting clients on the given server once `listen` is called.
+ *
+ * @internal
+ */
+export function createTransportListener(server: Server, listen: (callback: () => void) => void, options: string | (MessageReaderOptions & MessageWriterOptions)): Thenable<TransportListener> {
+	let connectionEmitter = new Emitter<[MessageReader, MessageWriter]>();
+	let errorEmitter = new Emitter<Error>();
+	let listener: TransportListener = {
+		onConnection: connectionEmitter.event,
+		onError: errorEmitter.event,
+		dispose: () => {
+			server.close();
+			connectionEmitter.dispose();
+			errorEmitter.dispose();
+		}
+	};
+	server.on('connection', (socket: Socket) => {
+		connectionEmitter.fire([
+			new SocketMessageReader(socket, options),
+			new SocketMessageWriter(socket, options)
+		]);
+	});
+	return new Promise<TransportListener>((resolve, reject) => {
+		server.on('error', reject);
+		listen(() => {
+			server.removeListener('error', reject);
+			// Without a listener an error would crash the process.
+			server.on('error', (error: Error) => errorEmitter.fire(error));
+			resolve(listener);
+		});
+	});
+}
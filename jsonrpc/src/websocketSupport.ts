@@ -0,0 +1,445 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Socket } from 'net';
+import { Server, IncomingMessage, ServerResponse, createServer, request as httpRequest } from 'http';
+import { createHash, randomBytes } from 'crypto';
+
+import { Message, BatchMessage } from './messages';
+import { Emitter } from './events';
+import { MessageReader, AbstractMessageReader, DataCallback } from './messageReader';
+import { MessageWriter, AbstractMessageWriter } from './messageWriter';
+import * as Is from './is';
+
+/**
+ * The minimal web socket surface used by the web socket message reader and
+ * writer. It is satisfied by the browser's `WebSocket` as well as by the
+ * `WebSocket` class of the `ws` npm module.
+ */
+export interface WebSocketLike {
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+	addEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+	addEventListener(type: 'close', listener: (event: any) => void): void;
+	addEventListener(type: 'error', listener: (event: any) => void): void;
+}
+
+export class WebSocketMessageReader extends AbstractMessageReader implements MessageReader {
+
+	private callback: DataCallback | undefined;
+	private queue: Message[];
+
+	public constructor(socket: WebSocketLike) {
+		super();
+		this.queue = [];
+		socket.addEventListener('message', (event) => this.onData(event.data));
+		socket.addEventListener('error', (event) => this.fireError(event && event.error !== void 0 ? event.error : event));
+		socket.addEventListener('close', () => this.fireClose());
+	}
+
+	public listen(callback: DataCallback): void {
+		this.callback = callback;
+		// Deliver everything that got received before we started listening.
+		while (this.queue.length > 0) {
+			callback(this.queue.shift()!);
+		}
+	}
+
+	private onData(data: any): void {
+		let message: Message;
+		try {
+			message = JSON.parse(Is.string(data) ? data : Buffer.from(data).toString('utf8'));
+		} catch (error) {
+			this.fireError(error);
+			return;
+		}
+		if (this.callback) {
+			this.callback(message);
+		} else {
+			this.queue.push(message);
+		}
+	}
+}
+
+export class WebSocketMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+	private socket: WebSocketLike;
+	private errorCount: number;
+
+	public constructor(socket: WebSocketLike) {
+		super();
+		this.socket = socket;
+		this.errorCount = 0;
+		socket.addEventListener('error', (event) => this.fireError(event && event.error !== void 0 ? event.error : event));
+		socket.addEventListener('close', () => this.fireClose());
+	}
+
+	public dispose(): void {
+		super.dispose();
+		this.socket.close();
+	}
+
+	public write(msg: Message | BatchMessage): void {
+		try {
+			// One message per text frame. The web socket framing makes a
+			// Content-Length header unnecessary.
+			this.socket.send(JSON.stringify(msg));
+			this.errorCount = 0;
+		} catch (error) {
+			this.errorCount++;
+			this.fireError(error, msg, this.errorCount);
+		}
+	}
+}
+
+export interface WebSocketTransport {
+	onConnected(): Thenable<[MessageReader, MessageWriter]>;
+}
+
+export interface WebSocketTransportOptions {
+	/**
+	 * The maximal size in bytes of a received message, summed up over all
+	 * its fragments. If a larger message is received the web socket is
+	 * closed using the status code 1009 and an error is reported. Defaults
+	 * to 100 MB.
+	 */
+	maxMessageSize?: number;
+}
+
+const DefaultMaxMessageSize: number = 100 * 1024 * 1024;
+
+export function createClientWebSocketTransport(port: number, options: WebSocketTransportOptions = {}): Thenable<WebSocketTransport> {
+	let connectResolve: any;
+	let connected = new Promise<[MessageReader, MessageWriter]>((resolve, _reject) => {
+		connectResolve = resolve;
+	});
+	return new Promise<WebSocketTransport>((resolve, reject) => {
+		let server: Server = createServer((_request: IncomingMessage, response: ServerResponse) => {
+			response.writeHead(426, { 'Connection': 'close' });
+			response.end();
+		});
+		server.on('upgrade', (request: IncomingMessage, socket: Socket, head: Buffer) => {
+			let key = request.headers['sec-websocket-key'];
+			let upgrade = request.headers['upgrade'];
+			if (!Is.string(key) || !Is.string(upgrade) || upgrade.toLowerCase() !== 'websocket') {
+				socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+				return;
+			}
+			server.close();
+			socket.write([
+				'HTTP/1.1 101 Switching Protocols',
+				'Upgrade: websocket',
+				'Connection: Upgrade',
+				`Sec-WebSocket-Accept: ${computeAcceptKey(key)}`,
+				CRLF
+			].join(CRLF));
+			let webSocket = new NodeWebSocket(false, options.maxMessageSize);
+			webSocket.attach(socket, head);
+			connectResolve([
+				new WebSocketMessageReader(webSocket),
+				new WebSocketMessageWriter(webSocket)
+			]);
+		});
+		server.on('error', reject);
+		server.listen(port, '127.0.0.1', () => {
+			server.removeListener('error', reject);
+			resolve({
+				onConnected: () => { return connected; }
+			});
+		});
+	});
+}
+
+export function createServerWebSocketTransport(port: number, options: WebSocketTransportOptions = {}): [MessageReader, MessageWriter] {
+	let webSocket = new NodeWebSocket(true, options.maxMessageSize);
+	let key = randomBytes(16).toString('base64');
+	let request = httpRequest({
+		host: '127.0.0.1',
+		port,
+		headers: {
+			'Connection': 'Upgrade',
+			'Upgrade': 'websocket',
+			'Sec-WebSocket-Version': '13',
+			'Sec-WebSocket-Key': key
+		}
+	});
+	request.on('upgrade', (response: IncomingMessage, socket: Socket, head: Buffer) => {
+		if (response.headers['sec-websocket-accept'] !== computeAcceptKey(key)) {
+			socket.destroy();
+			webSocket.fail(new Error('Web socket handshake failed. Invalid Sec-WebSocket-Accept header.'));
+			return;
+		}
+		webSocket.attach(socket, head);
+	});
+	request.on('response', (response: IncomingMessage) => {
+		webSocket.fail(new Error(`Web socket handshake failed. Server responded with status ${response.statusCode}.`));
+	});
+	request.on('error', (error: Error) => webSocket.fail(error));
+	request.end();
+	return [
+		new WebSocketMessageReader(webSocket),
+		new WebSocketMessageWriter(webSocket)
+	];
+}
+
+const CRLF = '\r\n';
+const WebSocketGUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function computeAcceptKey(key: string): string {
+	return createHash('sha1').update(key + WebSocketGUID).digest('base64');
+}
+
+namespace CloseCode {
+	export const MessageTooBig = 1009;
+}
+
+namespace OpCode {
+	export const Continuation = 0x0;
+	export const Text = 0x1;
+	export const Binary = 0x2;
+	export const Close = 0x8;
+	export const Ping = 0x9;
+	export const Pong = 0xA;
+}
+
+/**
+ * A minimal RFC 6455 implementation on top of a Node socket. It only
+ * supports what is needed to exchange JSON-RPC messages: text and binary
+ * messages (including fragmented ones), ping / pong and the closing
+ * handshake. Extensions and sub protocols are not supported.
+ */
+class NodeWebSocket implements WebSocketLike {
+
+	private socket: Socket | undefined;
+	private buffer: Buffer;
+	private fragments: Buffer[];
+	private fragmentsLength: number;
+	private pending: Buffer[];
+	private closing: boolean;
+	private closed: boolean;
+	// Set once a received message exceeded the maximal size. All further
+	// data is dropped.
+	private discarding: boolean;
+
+	private messageEmitter: Emitter<{ data: any }>;
+	private closeEmitter: Emitter<any>;
+	private errorEmitter: Emitter<any>;
+
+	constructor(private mask: boolean, private maxMessageSize: number = DefaultMaxMessageSize) {
+		this.buffer = Buffer.alloc(0);
+		this.fragments = [];
+		this.fragmentsLength = 0;
+		this.pending = [];
+		this.closing = false;
+		this.closed = false;
+		this.discarding = false;
+		this.messageEmitter = new Emitter<{ data: any }>();
+		this.closeEmitter = new Emitter<any>();
+		this.errorEmitter = new Emitter<any>();
+	}
+
+	public addEventListener(type: 'message' | 'close' | 'error', listener: (event: any) => void): void {
+		switch (type) {
+			case 'message':
+				this.messageEmitter.event(listener);
+				break;
+			case 'close':
+				this.closeEmitter.event(listener);
+				break;
+			case 'error':
+				this.errorEmitter.event(listener);
+				break;
+		}
+	}
+
+	public attach(socket: Socket, head: Buffer): void {
+		if (this.closed) {
+			socket.destroy();
+			return;
+		}
+		this.socket = socket;
+		socket.setNoDelay(true);
+		socket.on('data', (data: Buffer) => this.onData(data));
+		socket.on('error', (error: Error) => this.errorEmitter.fire({ error }));
+		socket.on('close', () => this.fireClose());
+		for (let frame of this.pending) {
+			socket.write(frame);
+		}
+		this.pending = [];
+		if (this.closing) {
+			socket.end();
+		} else if (head && head.length > 0) {
+			this.onData(head);
+		}
+	}
+
+	public fail(error: Error): void {
+		this.errorEmitter.fire({ error });
+		this.fireClose();
+	}
+
+	public send(data: string): void {
+		if (this.closing || this.closed) {
+			throw new Error('Web socket is closed.');
+		}
+		this.sendFrame(OpCode.Text, Buffer.from(data, 'utf8'));
+	}
+
+	public close(code: number = 1000, reason: string = ''): void {
+		if (this.closing || this.closed) {
+			return;
+		}
+		let payload = Buffer.alloc(2 + Buffer.byteLength(reason, 'utf8'));
+		payload.writeUInt16BE(code, 0);
+		payload.write(reason, 2, undefined, 'utf8');
+		this.sendFrame(OpCode.Close, payload);
+		this.closing = true;
+		if (this.socket) {
+			this.socket.end();
+		}
+	}
+
+	private fireClose(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.closeEmitter.fire({});
+		this.messageEmitter.dispose();
+		this.closeEmitter.dispose();
+		this.errorEmitter.dispose();
+	}
+
+	private sendFrame(opCode: number, payload: Buffer): void {
+		let length = payload.length;
+		let headerLength = length < 126 ? 2 : length < 0x10000 ? 4 : 10;
+		let maskLength = this.mask ? 4 : 0;
+		let frame = Buffer.alloc(headerLength + maskLength + length);
+		frame[0] = 0x80 | opCode;
+		let maskBit = this.mask ? 0x80 : 0;
+		if (length < 126) {
+			frame[1] = maskBit | length;
+		} else if (length < 0x10000) {
+			frame[1] = maskBit | 126;
+			frame.writeUInt16BE(length, 2);
+		} else {
+			frame[1] = maskBit | 127;
+			frame.writeUInt32BE(Math.floor(length / 0x100000000), 2);
+			frame.writeUInt32BE(length % 0x100000000, 6);
+		}
+		if (this.mask) {
+			let key = randomBytes(4);
+			key.copy(frame, headerLength);
+			for (let i = 0; i < length; i++) {
+				frame[headerLength + 4 + i] = payload[i] ^ key[i % 4];
+			}
+		} else {
+			payload.copy(frame, headerLength);
+		}
+		if (this.socket) {
+			this.socket.write(frame);
+		} else {
+			this.pending.push(frame);
+		}
+	}
+
+	private onData(data: Buffer): void {
+		if (this.discarding) {
+			return;
+		}
+		this.buffer = this.buffer.length === 0 ? data : Buffer.concat([this.buffer, data]);
+		while (this.buffer.length >= 2) {
+			let buffer = this.buffer;
+			let fin = (buffer[0] & 0x80) !== 0;
+			let opCode = buffer[0] & 0x0F;
+			let masked = (buffer[1] & 0x80) !== 0;
+			let length = buffer[1] & 0x7F;
+			let offset = 2;
+			if (length === 126) {
+				if (buffer.length < 4) {
+					return;
+				}
+				length = buffer.readUInt16BE(2);
+				offset = 4;
+			} else if (length === 127) {
+				if (buffer.length < 10) {
+					return;
+				}
+				length = buffer.readUInt32BE(2) * 0x100000000 + buffer.readUInt32BE(6);
+				offset = 10;
+			}
+			// Check the size before buffering the payload. Control frames
+			// don't belong to the fragmented message.
+			let messageLength = opCode < OpCode.Close ? this.fragmentsLength + length : length;
+			if (messageLength > this.maxMessageSize) {
+				this.discard(messageLength);
+				return;
+			}
+			let key: Buffer | undefined;
+			if (masked) {
+				if (buffer.length < offset + 4) {
+					return;
+				}
+				key = buffer.slice(offset, offset + 4);
+				offset += 4;
+			}
+			if (buffer.length < offset + length) {
+				return;
+			}
+			let payload = buffer.slice(offset, offset + length);
+			if (key) {
+				payload = Buffer.from(payload);
+				for (let i = 0; i < payload.length; i++) {
+					payload[i] = payload[i] ^ key[i % 4];
+				}
+			}
+			this.buffer = buffer.slice(offset + length);
+			this.handleFrame(fin, opCode, payload);
+		}
+	}
+
+	private discard(length: number): void {
+		this.discarding = true;
+		this.buffer = Buffer.alloc(0);
+		this.fragments = [];
+		this.fragmentsLength = 0;
+		this.errorEmitter.fire({ error: new Error(`Web socket message of ${length} bytes exceeds the maximal message size of ${this.maxMessageSize} bytes.`) });
+		this.close(CloseCode.MessageTooBig, 'Message too big');
+	}
+
+	private handleFrame(fin: boolean, opCode: number, payload: Buffer): void {
+		switch (opCode) {
+			case OpCode.Text:
+			case OpCode.Binary:
+			case OpCode.Continuation:
+				this.fragments.push(payload);
+				this.fragmentsLength += payload.length;
+				if (fin) {
+					let data = this.fragments.length === 1 ? this.fragments[0] : Buffer.concat(this.fragments);
+					this.fragments = [];
+					this.fragmentsLength = 0;
+					this.messageEmitter.fire({ data: data.toString('utf8') });
+				}
+				break;
+			case OpCode.Ping:
+				if (!this.closing) {
+					this.sendFrame(OpCode.Pong, payload);
+				}
+				break;
+			case OpCode.Pong:
+				break;
+			case OpCode.Close:
+				if (!this.closing) {
+					this.sendFrame(OpCode.Close, payload.slice(0, 2));
+					this.closing = true;
+				}
+				if (this.socket) {
+					this.socket.end();
+				}
+				break;
+		}
+	}
+}
@@ -5,29 +5,46 @@
 'use strict';
 
 import {
-	ErrorCodes, ResponseError, CancellationToken, CancellationTokenSource,
-	Disposable, Event, Emitter, Trace, Tracer, TraceFormat, TraceOptions, SetTraceNotification, LogTraceNotification,
-	Message, NotificationMessage, RequestMessage, MessageType as RPCMessageType,
-	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler, StarRequestHandler, HandlerResult,
+	ErrorCodes, ResponseError, CancellationToken, CancellationTokenSource, AbortSignalLike, TimeoutCancellationTokenSource, AbortSignalCancellationTokenSource, CombinedCancellationTokenSource,
+	Disposable, Event, Emitter, EventIterator, Trace, Tracer, TraceFormat, TraceOptions, SetTraceNotification, LogTraceNotification,
+	Message, BatchMessage, NotificationMessage, RequestMessage, MessageType as RPCMessageType,
+	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler, StarRequestHandler, HandlerResult, ParamsValidator, ParameterStructures,
 	NotificationType, NotificationType0, NotificationHandler, NotificationHandler0, GenericNotificationHandler, StarNotificationHandler,
-	MessageReader, MessageWriter, Logger, ConnectionStrategy,
-	StreamMessageReader, StreamMessageWriter, IPCMessageReader, IPCMessageWriter,
+	MessageReader, MessageWriter, Logger, ConnectionStrategy, HeartbeatOptions, MethodKind, CancellationStrategy, CancellationReceiverStrategy, CancellationSenderStrategy, AbstractCancellationTokenSource, FileCancellationStrategy,
+	RequestOptions, MessageBatch, MessageInterceptor,
+	StreamMessageReader, StreamMessageWriter, IPCMessageReader, IPCMessageWriter, MessagePortLike, MessagePortMessageReader, MessagePortMessageWriter,
+	MessageReaderOptions, MessageWriterOptions, ContentEncoder, ContentDecoder, ContentEncodings, MessageCodec, MessageCodecs,
+	SessionRecorder, readSession, replaySession, ReplayOptions, ReplayResult, ResponseDifference,
+	ConnectionStatistics, MethodStatistics, LatencyHistogram,
 	createClientPipeTransport, createServerPipeTransport, generateRandomPipeName, DataCallback,
-	createClientSocketTransport, createServerSocketTransport, ProgressType, ProgressToken,
+	createClientSocketTransport, createServerSocketTransport, createClientResumableSocketTransport, createServerResumableSocketTransport, ResumableSocketOptions, ProgressType, ProgressToken,
+	createRpcInterface, RpcInterface, RpcMessageTypes, RpcConnection, RpcProxy, RpcHandlers, MessageMultiplexer, MultiplexerOptions,
+	createClientWebSocketTransport, createServerWebSocketTransport, WebSocketMessageReader, WebSocketMessageWriter, WebSocketTransportOptions,
+	createConnectionPair, ConnectionPairOptions, createMemoryTransports, MemoryTransportOptions,
+	createSocketListener, createPipeListener, TransportListener, createMessageConnectionListener, MessageConnectionListener,
 	createMessageConnection
 } from 'vscode-jsonrpc';
 
 export {
-	ErrorCodes, ResponseError, CancellationToken, CancellationTokenSource,
-	Disposable, Event, Emitter, Trace, Tracer, TraceFormat, TraceOptions, SetTraceNotification, LogTraceNotification,
-	Message, NotificationMessage, RequestMessage, RPCMessageType,
-	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler, StarRequestHandler, HandlerResult,
+	ErrorCodes, ResponseError, CancellationToken, CancellationTokenSource, AbortSignalLike, TimeoutCancellationTokenSource, AbortSignalCancellationTokenSource, CombinedCancellationTokenSource,
+	Disposable, Event, Emitter, EventIterator, Trace, Tracer, TraceFormat, TraceOptions, SetTraceNotification, LogTraceNotification,
+	Message, BatchMessage, NotificationMessage, RequestMessage, RPCMessageType,
+	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler, StarRequestHandler, HandlerResult, ParamsValidator, ParameterStructures,
 	NotificationType, NotificationType0, NotificationHandler, NotificationHandler0, GenericNotificationHandler, StarNotificationHandler,
-	MessageReader, MessageWriter, Logger, ConnectionStrategy,
+	MessageReader, MessageWriter, Logger, ConnectionStrategy, HeartbeatOptions, MethodKind, CancellationStrategy, CancellationReceiverStrategy, CancellationSenderStrategy, AbstractCancellationTokenSource, FileCancellationStrategy,
+	RequestOptions, MessageBatch, MessageInterceptor,
 	StreamMessageReader, StreamMessageWriter,
 	IPCMessageReader, IPCMessageWriter,
+	MessagePortLike, MessagePortMessageReader, MessagePortMessageWriter,
+	MessageReaderOptions, MessageWriterOptions, ContentEncoder, ContentDecoder, ContentEncodings, MessageCodec, MessageCodecs,
+	SessionRecorder, readSession, replaySession, ReplayOptions, ReplayResult, ResponseDifference,
+	ConnectionStatistics, MethodStatistics, LatencyHistogram,
 	createClientPipeTransport, createServerPipeTransport, generateRandomPipeName, DataCallback,
-	createClientSocketTransport, createServerSocketTransport, ProgressType, ProgressToken
+	createClientSocketTransport, createServerSocketTransport, createClientResumableSocketTransport, createServerResumableSocketTransport, ResumableSocketOptions, ProgressType, ProgressToken,
+	createRpcInterface, RpcInterface, RpcMessageTypes, RpcConnection, RpcProxy, RpcHandlers, MessageMultiplexer, MultiplexerOptions,
+	createClientWebSocketTransport, createServerWebSocketTransport, WebSocketMessageReader, WebSocketMessageWriter, WebSocketTransportOptions,
+	createConnectionPair, ConnectionPairOptions, createMemoryTransports, MemoryTransportOptions,
+	createSocketListener, createPipeListener, TransportListener, createMessageConnectionListener, MessageConnectionListener
 };
 
 export * from 'vscode-languageserver-types';
@@ -87,63 +104,66 @@ export interface ProtocolConnection {
 	 * Sends a request and returns a promise resolving to the result of the request.
 	 *
 	 * @param type The type of request to sent.
-	 * @param token An optional cancellation token.
+	 * @param token An optional cancellation token or request options.
 	 * @returns A promise resolving to the request's result.
 	 */
-	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
+	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Sends a request and returns a promise resolving to the result of the request.
 	 *
 	 * @param type The type of request to sent.
 	 * @param params The request's parameter.
-	 * @param token An optional cancellation token.
+	 * @param token An optional cancellation token or request options.
 	 * @returns A promise resolving to the request's result.
 	 */
-	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
+	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Sends a request and returns a promise resolving to the result of the request.
 	 *
 	 * @param method the request's method name.
-	 * @param token An optional cancellation token.
+	 * @param token An optional cancellation token or request options.
 	 * @returns A promise resolving to the request's result.
 	 */
-	sendRequest<R>(method: string, token?: CancellationToken): Thenable<R>;
+	sendRequest<R>(method: string, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Sends a request and returns a promise resolving to the result of the request.
 	 *
 	 * @param method the request's method name.
 	 * @param params The request's parameter.
-	 * @param token An optional cancellation token.
+	 * @param token An optional cancellation token or request options.
 	 * @returns A promise resolving to the request's result.
 	 */
-	sendRequest<R>(method: string, param: any, token?: CancellationToken): Thenable<R>;
+	sendRequest<R>(method: string, param: any, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Installs a request handler.
 	 *
 	 * @param type The request type to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): void;
+	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): Disposable;
 
 	/**
 	 * Installs a request handler.
 	 *
 	 * @param type The request type to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): void;
+	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): Disposable;
 
 	/**
 	 * Installs a request handler.
 	 *
 	 * @param methods The method name to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): void;
+	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): Disposable;
 
 	/**
 	 * Sends a notification.
@@ -175,29 +195,48 @@ export interface ProtocolConnection {
 	 */
 	sendNotification(method: string, params: any): void;
 
+	/**
+	 * Sends all requests and notifications issued by the callback as one
+	 * JSON-RPC batch.
+	 *
+	 * @param callback the callback issuing the batch's messages.
+	 */
+	sendBatch(callback: (batch: MessageBatch) => void): void;
+
+	/**
+	 * Adds an interceptor observing and rewriting the messages of the connection.
+	 *
+	 * @param interceptor the interceptor to add.
+	 * @return a disposable removing the interceptor.
+	 */
+	addInterceptor(interceptor: MessageInterceptor): Disposable;
+
 	/**
 	 * Installs a notification handler.
 	 *
 	 * @param type The notification type to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): void;
+	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): Disposable;
 
 	/**
 	 * Installs a notification handler.
 	 *
 	 * @param type The notification type to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): void;
+	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): Disposable;
 
 	/**
 	 * Installs a notification handler.
 	 *
 	 * @param methods The method name to install the handler for.
 	 * @param handler The actual handler.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification(method: string, handler: GenericNotificationHandler): void;
+	onNotification(method: string, handler: GenericNotificationHandler): Disposable;
 
 	/**
 	 * Installs a progress handler for a given token.
@@ -207,6 +246,15 @@ export interface ProtocolConnection {
 	 */
 	onProgress<P>(type: ProgressType<P>, token: string | number, handler: NotificationHandler<P>): Disposable;
 
+	/**
+	 * Returns an async iterator yielding the progress reported for a given token.
+	 * The iteration ends when the request carrying the token as its partial
+	 * result or work done token finished.
+	 * @param type the progress type
+	 * @param token the token
+	 */
+	progressIterator<P>(type: ProgressType<P>, token: string | number): EventIterator<P>;
+
 	/**
 	 * Sends progress.
 	 * @param type the progress type
@@ -221,6 +269,30 @@ export interface ProtocolConnection {
 	trace(value: Trace, tracer: Tracer, sendNotification?: boolean): void;
 	trace(value: Trace, tracer: Tracer, traceOptions?: TraceOptions): void;
 
+	/**
+	 * Logs all messages of the connection in the JSON trace format to the
+	 * given tracer, for example a [SessionRecorder](#SessionRecorder).
+	 *
+	 * @param recorder the tracer receiving the messages.
+	 * @return a disposable to stop recording.
+	 */
+	record(recorder: Tracer): Disposable;
+
+	/**
+	 * Returns a snapshot of the connection's statistics.
+	 */
+	getStatistics(): ConnectionStatistics;
+
+	/**
+	 * An event emitter firing periodically with the connection's statistics.
+	 */
+	onStatistics: Event<ConnectionStatistics>;
+
+	/**
+	 * An event emitter firing when the other side stopped answering heartbeats.
+	 */
+	onUnresponsive: Event<void>;
+
 	/**
 	 * An event emitter firing when an error occurs on the connection.
 	 */
@@ -6,7 +6,7 @@
 
 import * as Is from './utils/is';
 
-import { RequestType, RequestType0, NotificationType, NotificationType0, ProgressToken, ProgressType } from 'vscode-jsonrpc';
+import { RequestType, RequestType0, NotificationType, NotificationType0, ProgressToken, ProgressType, ParamsValidator } from 'vscode-jsonrpc';
 
 import {
 	TextDocumentContentChangeEvent, Position, Range, Location, LocationLink, Diagnostic, Command,
@@ -41,6 +41,96 @@ import { SelectionRangeClientCapabilities, SelectionRangeOptions, SelectionRange
 // @ts-ignore: to avoid inlining LocatioLink as dynamic import
 let __noDynamicImport: LocationLink | undefined;
 
+/**
+ * Validators for the parameters of the standard requests and notifications.
+ * They only check the properties a handler relies on. Every validator
+ * returns a description of the first problem found.
+ */
+export namespace ParamsValidators {
+
+	function object(value: any, name: string): string | undefined {
+		return Is.objectLiteral(value) ? undefined : `${name} must be an object`;
+	}
+
+	function property(value: any, name: string, check: (value: any) => boolean, expected: string): string | undefined {
+		return check(value) ? undefined : `${name} must be ${expected}`;
+	}
+
+	function textDocumentIdentifier(value: any): string | undefined {
+		return property(value, 'textDocument', (value) => Is.objectLiteral(value) && TextDocumentIdentifier.is(value), 'a text document identifier');
+	}
+
+	function position(value: any): string | undefined {
+		return property(value, 'position', Position.is, 'a position');
+	}
+
+	function range(value: any): string | undefined {
+		return property(value, 'range', Range.is, 'a range');
+	}
+
+	function formattingOptions(value: any): string | undefined {
+		return property(value, 'options', (value) => Is.objectLiteral(value) && FormattingOptions.is(value), 'formatting options');
+	}
+
+	export const initialize: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.processId, 'processId', (value) => value === null || value === undefined || Is.number(value), 'a number or null')
+		|| object(params.capabilities, 'capabilities');
+
+	export const textDocument: ParamsValidator = (params: any) => object(params, 'params')
+		|| textDocumentIdentifier(params.textDocument);
+
+	export const textDocumentPosition: ParamsValidator = (params: any) => textDocument(params)
+		|| position(params.position);
+
+	export const didOpenTextDocument: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.textDocument, 'textDocument', (value) => Is.objectLiteral(value) && TextDocumentItem.is(value), 'a text document item');
+
+	export const didChangeTextDocument: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.textDocument, 'textDocument', (value) => Is.objectLiteral(value) && VersionedTextDocumentIdentifier.is(value), 'a versioned text document identifier')
+		|| property(params.contentChanges, 'contentChanges', (value) => Is.typedArray(value, (change: TextDocumentContentChangeEvent) => Is.objectLiteral(change) && Is.string(change.text)), 'an array of content changes');
+
+	export const willSaveTextDocument: ParamsValidator = (params: any) => textDocument(params)
+		|| property(params.reason, 'reason', Is.number, 'a number');
+
+	export const didChangeWatchedFiles: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.changes, 'changes', (value) => Is.typedArray(value, (event: FileEvent) => Is.objectLiteral(event) && Is.string(event.uri) && Is.number(event.type)), 'an array of file events');
+
+	export const references: ParamsValidator = (params: any) => textDocumentPosition(params)
+		|| property(params.context, 'context', (value) => Is.objectLiteral(value) && Is.boolean((value as ReferenceContext).includeDeclaration), 'a reference context');
+
+	export const workspaceSymbol: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.query, 'query', Is.string, 'a string');
+
+	export const codeAction: ParamsValidator = (params: any) => textDocument(params)
+		|| range(params.range)
+		|| property(params.context, 'context', (value) => Is.objectLiteral(value) && Is.array((value as CodeActionContext).diagnostics), 'a code action context');
+
+	export const documentFormatting: ParamsValidator = (params: any) => textDocument(params)
+		|| formattingOptions(params.options);
+
+	export const documentRangeFormatting: ParamsValidator = (params: any) => documentFormatting(params)
+		|| range(params.range);
+
+	export const documentOnTypeFormatting: ParamsValidator = (params: any) => textDocumentPosition(params)
+		|| formattingOptions(params.options)
+		|| property(params.ch, 'ch', Is.string, 'a string');
+
+	export const rename: ParamsValidator = (params: any) => textDocumentPosition(params)
+		|| property(params.newName, 'newName', Is.string, 'a string');
+
+	export const executeCommand: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.command, 'command', Is.string, 'a string')
+		|| property(params.arguments, 'arguments', (value) => value === undefined || Is.array(value), 'an array');
+
+	export const publishDiagnostics: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.uri, 'uri', Is.string, 'a string')
+		|| property(params.diagnostics, 'diagnostics', Is.array, 'an array');
+
+	export const showMessage: ParamsValidator = (params: any) => object(params, 'params')
+		|| property(params.type, 'type', Is.number, 'a number')
+		|| property(params.message, 'message', Is.string, 'a string');
+}
+
 /**
  * A document filter denotes a document by different properties like
  * the [language](#TextDocument.languageId), the [scheme](#Uri.scheme) of
@@ -1093,7 +1183,7 @@ export type ServerCapabilities<T = any> = _ServerCapabilities<T> & Implementatio
  * resolves to such.
  */
 export namespace InitializeRequest {
-	export const type = new RequestType<InitializeParams & WorkDoneProgressParams, InitializeResult, InitializeError, void>('initialize');
+	export const type = new RequestType<InitializeParams & WorkDoneProgressParams, InitializeResult, InitializeError, void>('initialize', ParamsValidators.initialize);
 }
 
 /**
@@ -1286,7 +1376,7 @@ export interface ShowMessageParams {
  * the client to display a particular message in the user interface.
  */
 export namespace ShowMessageNotification {
-	export const type = new NotificationType<ShowMessageParams, void>('window/showMessage');
+	export const type = new NotificationType<ShowMessageParams, void>('window/showMessage', ParamsValidators.showMessage);
 }
 
 export interface MessageActionItem {
@@ -1318,7 +1408,7 @@ export interface ShowMessageRequestParams {
  * and a set of options actions to the user.
  */
 export namespace ShowMessageRequest {
-	export const type = new RequestType<ShowMessageRequestParams, MessageActionItem | null, void, void>('window/showMessageRequest');
+	export const type = new RequestType<ShowMessageRequestParams, MessageActionItem | null, void, void>('window/showMessageRequest', ParamsValidators.showMessage);
 }
 
 /**
@@ -1326,7 +1416,7 @@ export namespace ShowMessageRequest {
  * the client to log a particular message.
  */
 export namespace LogMessageNotification {
-	export const type = new NotificationType<LogMessageParams, void>('window/logMessage');
+	export const type = new NotificationType<LogMessageParams, void>('window/logMessage', ParamsValidators.showMessage);
 }
 
 /**
@@ -1377,7 +1467,7 @@ export interface DidOpenTextDocumentParams {
  * is one.
  */
 export namespace DidOpenTextDocumentNotification {
-	export const type = new NotificationType<DidOpenTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/didOpen');
+	export const type = new NotificationType<DidOpenTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/didOpen', ParamsValidators.didOpenTextDocument);
 }
 
 /**
@@ -1414,7 +1504,7 @@ export interface TextDocumentChangeRegistrationOptions extends TextDocumentRegis
  * changes to a text document.
  */
 export namespace DidChangeTextDocumentNotification {
-	export const type = new NotificationType<DidChangeTextDocumentParams, TextDocumentChangeRegistrationOptions>('textDocument/didChange');
+	export const type = new NotificationType<DidChangeTextDocumentParams, TextDocumentChangeRegistrationOptions>('textDocument/didChange', ParamsValidators.didChangeTextDocument);
 }
 
 /**
@@ -1437,7 +1527,7 @@ export interface DidCloseTextDocumentParams {
  * notification requires a previous open notification to be sent.
  */
 export namespace DidCloseTextDocumentNotification {
-	export const type = new NotificationType<DidCloseTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/didClose');
+	export const type = new NotificationType<DidCloseTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/didClose', ParamsValidators.textDocument);
 }
 
 /**
@@ -1467,7 +1557,7 @@ export interface TextDocumentSaveRegistrationOptions extends TextDocumentRegistr
  * the document got saved in the client.
  */
 export namespace DidSaveTextDocumentNotification {
-	export const type = new NotificationType<DidSaveTextDocumentParams, TextDocumentSaveRegistrationOptions>('textDocument/didSave');
+	export const type = new NotificationType<DidSaveTextDocumentParams, TextDocumentSaveRegistrationOptions>('textDocument/didSave', ParamsValidators.textDocument);
 }
 
 /**
@@ -1490,7 +1580,7 @@ export interface WillSaveTextDocumentParams {
  * the document is actually saved.
  */
 export namespace WillSaveTextDocumentNotification {
-	export const type = new NotificationType<WillSaveTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/willSave');
+	export const type = new NotificationType<WillSaveTextDocumentParams, TextDocumentRegistrationOptions>('textDocument/willSave', ParamsValidators.willSaveTextDocument);
 }
 
 /**
@@ -1502,7 +1592,7 @@ export namespace WillSaveTextDocumentNotification {
  * reliable.
  */
 export namespace WillSaveTextDocumentWaitUntilRequest {
-	export const type = new RequestType<WillSaveTextDocumentParams, TextEdit[] | null, void, TextDocumentRegistrationOptions>('textDocument/willSaveWaitUntil');
+	export const type = new RequestType<WillSaveTextDocumentParams, TextEdit[] | null, void, TextDocumentRegistrationOptions>('textDocument/willSaveWaitUntil', ParamsValidators.willSaveTextDocument);
 }
 
 //---- File eventing ----
@@ -1512,7 +1602,7 @@ export namespace WillSaveTextDocumentWaitUntilRequest {
  * the client detects changes to file watched by the language client.
  */
 export namespace DidChangeWatchedFilesNotification {
-	export const type = new NotificationType<DidChangeWatchedFilesParams, DidChangeWatchedFilesRegistrationOptions>('workspace/didChangeWatchedFiles');
+	export const type = new NotificationType<DidChangeWatchedFilesParams, DidChangeWatchedFilesRegistrationOptions>('workspace/didChangeWatchedFiles', ParamsValidators.didChangeWatchedFiles);
 }
 
 /**
@@ -1613,7 +1703,7 @@ export namespace WatchKind {
  * results of validation runs.
  */
 export namespace PublishDiagnosticsNotification {
-	export const type = new NotificationType<PublishDiagnosticsParams, void>('textDocument/publishDiagnostics');
+	export const type = new NotificationType<PublishDiagnosticsParams, void>('textDocument/publishDiagnostics', ParamsValidators.publishDiagnostics);
 }
 
 /**
@@ -1711,7 +1801,7 @@ export interface CompletionRegistrationOptions extends TextDocumentRegistrationO
  * `filterText`, `insertText`, and `textEdit`, must not be changed during resolve.
  */
 export namespace CompletionRequest {
-	export const type = new RequestType<CompletionParams, CompletionItem[] | CompletionList | null, void, CompletionRegistrationOptions>('textDocument/completion');
+	export const type = new RequestType<CompletionParams, CompletionItem[] | CompletionList | null, void, CompletionRegistrationOptions>('textDocument/completion', ParamsValidators.textDocumentPosition);
 	export const resultType = new ProgressType<CompletionItem[]>();
 }
 
@@ -1744,7 +1834,7 @@ export interface HoverRegistrationOptions extends TextDocumentRegistrationOption
  * type [Hover](#Hover) or a Thenable that resolves to such.
  */
 export namespace HoverRequest {
-	export const type = new RequestType<HoverParams, Hover | null, void, HoverRegistrationOptions>('textDocument/hover');
+	export const type = new RequestType<HoverParams, Hover | null, void, HoverRegistrationOptions>('textDocument/hover', ParamsValidators.textDocumentPosition);
 }
 
 //---- SignatureHelp ----------------------------------
@@ -1762,7 +1852,7 @@ export interface SignatureHelpRegistrationOptions extends TextDocumentRegistrati
 }
 
 export namespace SignatureHelpRequest {
-	export const type = new RequestType<SignatureHelpParams, SignatureHelp | null, void, SignatureHelpRegistrationOptions>('textDocument/signatureHelp');
+	export const type = new RequestType<SignatureHelpParams, SignatureHelp | null, void, SignatureHelpRegistrationOptions>('textDocument/signatureHelp', ParamsValidators.textDocumentPosition);
 }
 
 //---- Goto Definition -------------------------------------
@@ -1787,7 +1877,7 @@ export interface DefinitionRegistrationOptions extends TextDocumentRegistrationO
  * to such.
  */
 export namespace DefinitionRequest {
-	export const type = new RequestType<DefinitionParams, Definition | DefinitionLink[] | null, void, DefinitionRegistrationOptions>('textDocument/definition');
+	export const type = new RequestType<DefinitionParams, Definition | DefinitionLink[] | null, void, DefinitionRegistrationOptions>('textDocument/definition', ParamsValidators.textDocumentPosition);
 	export const resultType = new ProgressType<Location[] | DefinitionLink[]>();
 }
 
@@ -1813,7 +1903,7 @@ export interface ReferenceRegistrationOptions extends TextDocumentRegistrationOp
  * [Location[]](#Location) or a Thenable that resolves to such.
  */
 export namespace ReferencesRequest {
-	export const type = new RequestType<ReferenceParams, Location[] | null, void, ReferenceRegistrationOptions>('textDocument/references');
+	export const type = new RequestType<ReferenceParams, Location[] | null, void, ReferenceRegistrationOptions>('textDocument/references', ParamsValidators.references);
 	export const resultType = new ProgressType<Location[]>();
 }
 
@@ -1838,7 +1928,7 @@ export interface DocumentHighlightRegistrationOptions extends TextDocumentRegist
  * (#DocumentHighlight) or a Thenable that resolves to such.
  */
 export namespace DocumentHighlightRequest {
-	export const type = new RequestType<DocumentHighlightParams, DocumentHighlight[] | null, void, DocumentHighlightRegistrationOptions>('textDocument/documentHighlight');
+	export const type = new RequestType<DocumentHighlightParams, DocumentHighlight[] | null, void, DocumentHighlightRegistrationOptions>('textDocument/documentHighlight', ParamsValidators.textDocumentPosition);
 	export const resultType = new ProgressType<DocumentHighlight[]>();
 }
 
@@ -1867,7 +1957,7 @@ export interface DocumentSymbolRegistrationOptions extends TextDocumentRegistrat
  * that resolves to such.
  */
 export namespace DocumentSymbolRequest {
-	export const type = new RequestType<DocumentSymbolParams, SymbolInformation[] | DocumentSymbol[] | null, void, DocumentSymbolRegistrationOptions>('textDocument/documentSymbol');
+	export const type = new RequestType<DocumentSymbolParams, SymbolInformation[] | DocumentSymbol[] | null, void, DocumentSymbolRegistrationOptions>('textDocument/documentSymbol', ParamsValidators.textDocument);
 	export const resultType = new ProgressType<SymbolInformation[] | DocumentSymbol[]>();
 }
 
@@ -1896,7 +1986,7 @@ export interface WorkspaceSymbolRegistrationOptions extends WorkspaceSymbolOptio
  * resolves to such.
  */
 export namespace WorkspaceSymbolRequest {
-	export const type = new RequestType<WorkspaceSymbolParams, SymbolInformation[] | null, void, WorkspaceSymbolRegistrationOptions>('workspace/symbol');
+	export const type = new RequestType<WorkspaceSymbolParams, SymbolInformation[] | null, void, WorkspaceSymbolRegistrationOptions>('workspace/symbol', ParamsValidators.workspaceSymbol);
 	export const resultType = new ProgressType<SymbolInformation[]>();
 }
 
@@ -1932,7 +2022,7 @@ export interface CodeActionRegistrationOptions extends TextDocumentRegistrationO
  * A request to provide commands for the given text document and range.
  */
 export namespace CodeActionRequest {
-	export const type = new RequestType<CodeActionParams, (Command | CodeAction)[] | null, void, CodeActionRegistrationOptions>('textDocument/codeAction');
+	export const type = new RequestType<CodeActionParams, (Command | CodeAction)[] | null, void, CodeActionRegistrationOptions>('textDocument/codeAction', ParamsValidators.codeAction);
 	export const resultType = new ProgressType<(Command | CodeAction)[]>();
 }
 
@@ -1958,7 +2048,7 @@ export interface CodeLensRegistrationOptions extends TextDocumentRegistrationOpt
  * A request to provide code lens for the given text document.
  */
 export namespace CodeLensRequest {
-	export const type = new RequestType<CodeLensParams, CodeLens[] | null, void, CodeLensRegistrationOptions>('textDocument/codeLens');
+	export const type = new RequestType<CodeLensParams, CodeLens[] | null, void, CodeLensRegistrationOptions>('textDocument/codeLens', ParamsValidators.textDocument);
 	export const resultType = new ProgressType<CodeLens[]>();
 }
 
@@ -1996,7 +2086,7 @@ export interface DocumentFormattingRegistrationOptions extends TextDocumentRegis
  * A request to to format a whole document.
  */
 export namespace DocumentFormattingRequest {
-	export const type = new RequestType<DocumentFormattingParams, TextEdit[] | null, void, DocumentFormattingRegistrationOptions>('textDocument/formatting');
+	export const type = new RequestType<DocumentFormattingParams, TextEdit[] | null, void, DocumentFormattingRegistrationOptions>('textDocument/formatting', ParamsValidators.documentFormatting);
 }
 
 /**
@@ -2029,7 +2119,7 @@ export interface DocumentRangeFormattingRegistrationOptions extends TextDocument
  * A request to to format a range in a document.
  */
 export namespace DocumentRangeFormattingRequest {
-	export const type = new RequestType<DocumentRangeFormattingParams, TextEdit[] | null, void, DocumentRangeFormattingRegistrationOptions>('textDocument/rangeFormatting');
+	export const type = new RequestType<DocumentRangeFormattingParams, TextEdit[] | null, void, DocumentRangeFormattingRegistrationOptions>('textDocument/rangeFormatting', ParamsValidators.documentRangeFormatting);
 }
 
 /**
@@ -2067,7 +2157,7 @@ export interface DocumentOnTypeFormattingRegistrationOptions extends TextDocumen
  * A request to format a document on type.
  */
 export namespace DocumentOnTypeFormattingRequest {
-	export const type = new RequestType<DocumentOnTypeFormattingParams, TextEdit[] | null, void, DocumentOnTypeFormattingRegistrationOptions>('textDocument/onTypeFormatting');
+	export const type = new RequestType<DocumentOnTypeFormattingParams, TextEdit[] | null, void, DocumentOnTypeFormattingRegistrationOptions>('textDocument/onTypeFormatting', ParamsValidators.documentOnTypeFormatting);
 }
 
 //---- Rename ----------------------------------------------
@@ -2104,7 +2194,7 @@ export interface RenameRegistrationOptions extends TextDocumentRegistrationOptio
  * A request to rename a symbol.
  */
 export namespace RenameRequest {
-	export const type = new RequestType<RenameParams, WorkspaceEdit | null, void, RenameRegistrationOptions>('textDocument/rename');
+	export const type = new RequestType<RenameParams, WorkspaceEdit | null, void, RenameRegistrationOptions>('textDocument/rename', ParamsValidators.rename);
 }
 
 export interface PrepareRenameParams extends TextDocumentPositionParams, WorkDoneProgressParams {
@@ -2114,7 +2204,7 @@ export interface PrepareRenameParams extends TextDocumentPositionParams, WorkDon
  * A request to test and perform the setup necessary for a rename.
  */
 export namespace PrepareRenameRequest {
-	export const type = new RequestType<PrepareRenameParams, Range | { range: Range, placeholder: string } | null, void, void>('textDocument/prepareRename');
+	export const type = new RequestType<PrepareRenameParams, Range | { range: Range, placeholder: string } | null, void, void>('textDocument/prepareRename', ParamsValidators.textDocumentPosition);
 }
 
 //---- Document Links ----------------------------------------------
@@ -2139,7 +2229,7 @@ export interface DocumentLinkRegistrationOptions extends TextDocumentRegistratio
  * A request to provide document links
  */
 export namespace DocumentLinkRequest {
-	export const type = new RequestType<DocumentLinkParams, DocumentLink[] | null, void, DocumentLinkRegistrationOptions>('textDocument/documentLink');
+	export const type = new RequestType<DocumentLinkParams, DocumentLink[] | null, void, DocumentLinkRegistrationOptions>('textDocument/documentLink', ParamsValidators.textDocument);
 	export const resultType = new ProgressType<DocumentLink[]>();
 }
 
@@ -2180,7 +2270,7 @@ export interface ExecuteCommandRegistrationOptions extends ExecuteCommandOptions
  * a workspace edit which the client will apply to the workspace.
  */
 export namespace ExecuteCommandRequest {
-	export const type = new RequestType<ExecuteCommandParams, any | null, void, ExecuteCommandRegistrationOptions>('workspace/executeCommand');
+	export const type = new RequestType<ExecuteCommandParams, any | null, void, ExecuteCommandRegistrationOptions>('workspace/executeCommand', ParamsValidators.executeCommand);
 }
 
 //---- Apply Edit request ----------------------------------------
@@ -13,11 +13,11 @@ import {
 	RequestType, RequestType0, RequestHandler, RequestHandler0, GenericRequestHandler, StarRequestHandler, HandlerResult,
 	NotificationType, NotificationType0, NotificationHandler, NotificationHandler0, GenericNotificationHandler, StarNotificationHandler,
 	RPCMessageType, ResponseError,
-	Logger, MessageReader, IPCMessageReader,
-	MessageWriter, IPCMessageWriter, createServerPipeTransport, createServerSocketTransport,
-	CancellationToken, CancellationTokenSource,
-	Disposable, Event, Emitter, Trace, SetTraceNotification, LogTraceNotification,
-	ConnectionStrategy,
+	Logger, MessageReader, IPCMessageReader, MessagePortMessageReader,
+	MessageWriter, IPCMessageWriter, MessagePortMessageWriter, createServerPipeTransport, createServerSocketTransport, createServerWebSocketTransport,
+	CancellationToken, CancellationTokenSource, AbortSignalLike,
+	Disposable, Event, Emitter, EventIterator, Trace, SetTraceNotification, LogTraceNotification,
+	ConnectionStrategy, RequestOptions, MessageInterceptor, Tracer as MessageTracer, ConnectionStatistics, TransportListener,
 	RegistrationRequest, Registration, RegistrationParams, Unregistration, UnregistrationRequest, UnregistrationParams,
 	InitializeRequest, InitializeParams, InitializeResult, InitializeError,
 	InitializedNotification, InitializedParams, ShutdownRequest, ExitNotification,
@@ -1108,24 +1108,27 @@ export interface Connection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	 *
 	 * @param type The [RequestType](#RequestType) describing the request.
 	 * @param handler The handler to install
+	 * @return a disposable removing the handler.
 	 */
-	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): void;
-	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): void;
+	onRequest<R, E, RO>(type: RequestType0<R, E, RO>, handler: RequestHandler0<R, E>): Disposable;
+	onRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, handler: RequestHandler<P, R, E>): Disposable;
 
 	/**
 	 * Installs a request handler for the given method.
 	 *
 	 * @param method The method to register a request handler for.
 	 * @param handler The handler to install.
+	 * @return a disposable removing the handler.
 	 */
-	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): void;
+	onRequest<R, E>(method: string, handler: GenericRequestHandler<R, E>): Disposable;
 
 	/**
 	 * Installs a request handler that is invoked if no specific request handler can be found.
 	 *
 	 * @param handler a handler that handles all requests.
+	 * @return a disposable removing the handler.
 	 */
-	onRequest(handler: StarRequestHandler): void;
+	onRequest(handler: StarRequestHandler): Disposable;
 
 	/**
 	 * Send a request to the client.
@@ -1133,8 +1136,8 @@ export interface Connection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	 * @param type The [RequestType](#RequestType) describing the request.
 	 * @param params The request's parameters.
 	 */
-	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken): Thenable<R>;
-	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken): Thenable<R>;
+	sendRequest<R, E, RO>(type: RequestType0<R, E, RO>, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<P, R, E, RO>(type: RequestType<P, R, E, RO>, params: P, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Send a request to the client.
@@ -1142,32 +1145,35 @@ export interface Connection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	 * @param method The method to invoke on the client.
 	 * @param params The request's parameters.
 	 */
-	sendRequest<R>(method: string, token?: CancellationToken): Thenable<R>;
-	sendRequest<R>(method: string, params: any, token?: CancellationToken): Thenable<R>;
+	sendRequest<R>(method: string, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
+	sendRequest<R>(method: string, params: any, token?: CancellationToken | AbortSignalLike | RequestOptions): Thenable<R>;
 
 	/**
 	 * Installs a notification handler described by the given [NotificationType](#NotificationType).
 	 *
 	 * @param type The [NotificationType](#NotificationType) describing the notification.
 	 * @param handler The handler to install.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): void;
-	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): void;
+	onNotification<RO>(type: NotificationType0<RO>, handler: NotificationHandler0): Disposable;
+	onNotification<P, RO>(type: NotificationType<P, RO>, handler: NotificationHandler<P>): Disposable;
 
 	/**
 	 * Installs a notification handler for the given method.
 	 *
 	 * @param method The method to register a request handler for.
 	 * @param handler The handler to install.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification(method: string, handler: GenericNotificationHandler): void;
+	onNotification(method: string, handler: GenericNotificationHandler): Disposable;
 
 	/**
 	 * Installs a notification handler that is invoked if no specific notification handler can be found.
 	 *
 	 * @param handler a handler that handles all notifications.
+	 * @return a disposable removing the handler.
 	 */
-	onNotification(handler: StarNotificationHandler): void;
+	onNotification(handler: StarNotificationHandler): Disposable;
 
 	/**
 	 * Send a notification to the client.
@@ -1194,6 +1200,15 @@ export interface Connection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	 */
 	onProgress<P>(type: ProgressType<P>, token: string | number, handler: NotificationHandler<P>): Disposable;
 
+	/**
+	 * Returns an async iterator yielding the progress reported for a given token.
+	 * The iteration ends when the request carrying the token as its partial
+	 * result or work done token finished.
+	 * @param type the progress type
+	 * @param token the token
+	 */
+	progressIterator<P>(type: ProgressType<P>, token: string | number): EventIterator<P>;
+
 	/**
 	 * Sends progress.
 	 * @param type the progress type
@@ -1202,6 +1217,37 @@ export interface Connection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	 */
 	sendProgress<P>(type: ProgressType<P>, token: string | number, value: P): void;
 
+	/**
+	 * Adds an interceptor that sees all messages exchanged with the client.
+	 * @param interceptor the interceptor to add
+	 * @return a disposable removing the interceptor
+	 */
+	addInterceptor(interceptor: MessageInterceptor): Disposable;
+
+	/**
+	 * Records all messages exchanged with the client, for example to a file
+	 * using a [SessionRecorder](#SessionRecorder).
+	 * @param recorder the tracer receiving the messages in the JSON trace format
+	 * @return a disposable to stop recording
+	 */
+	record(recorder: MessageTracer): Disposable;
+
+	/**
+	 * Returns a snapshot of the connection's statistics.
+	 */
+	getStatistics(): ConnectionStatistics;
+
+	/**
+	 * An event firing periodically with the connection's statistics.
+	 */
+	onStatistics: Event<ConnectionStatistics>;
+
+	/**
+	 * An event firing when the client stopped answering heartbeats. Heartbeats
+	 * are enabled using the `heartbeat` property of the connection strategy.
+	 */
+	onUnresponsive: Event<void>;
+
 	/**
 	 * Installs a handler for the initialize request.
 	 *
@@ -1694,12 +1740,104 @@ export function createConnection(arg1?: any, arg2?: any, arg3?: any, arg4?: any)
 	return _createConnection(input, output, strategy, factories);
 }
 
+export interface ConnectionListener<PConsole = _, PTracer = _, PTelemetry = _, PClient = _, PWindow = _, PWorkspace = _> extends Disposable {
+	/**
+	 * Fires with the connection of an accepted client. Register the handlers
+	 * and call `listen` on it. The connection is disposed once the client
+	 * disconnects.
+	 */
+	readonly onConnection: Event<Connection<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>>;
+
+	/**
+	 * Fires if the transport listener fails to accept clients. See
+	 * `TransportListener.onError`.
+	 */
+	readonly onError: Event<Error>;
+
+	/**
+	 * The connections of the currently connected clients.
+	 */
+	readonly connections: Connection<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>[];
+
+	/**
+	 * Stops accepting clients and disposes the connections of the
+	 * connected clients.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Creates an isolated connection for every client accepted by the given
+ * transport listener. Unlike connections created using `createConnection`
+ * the `exit` notification only disposes the client's connection and
+ * doesn't terminate the process.
+ *
+ * @param listener The listener accepting clients, for example created using `createSocketListener`.
+ * @param strategy An optional connection strategy to control additional settings
+ */
+export function createConnectionListener(listener: TransportListener, strategy?: ConnectionStrategy): ConnectionListener;
+
+/**
+ * Creates an isolated connection for every client accepted by the given
+ * transport listener. The connections surface proposed API.
+ *
+ * @param factories: the factories to use to implement the proposed API
+ * @param listener The listener accepting clients, for example created using `createSocketListener`.
+ * @param strategy An optional connection strategy to control additional settings
+ */
+export function createConnectionListener<PConsole = _, PTracer = _, PTelemetry = _, PClient = _, PWindow = _, PWorkspace = _>(
+	factories: Features<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>,
+	listener: TransportListener, strategy?: ConnectionStrategy
+): ConnectionListener<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>;
+
+export function createConnectionListener(arg1: any, arg2?: any, arg3?: any): ConnectionListener {
+	let factories: Features | undefined;
+	let listener: TransportListener = arg1;
+	let strategy: ConnectionStrategy | undefined = arg2;
+	if ((arg1 as Features).__brand === 'features') {
+		factories = arg1;
+		listener = arg2;
+		strategy = arg3;
+	}
+	let connectionEmitter = new Emitter<Connection>();
+	let connections: Set<Connection> = new Set();
+	let subscription = listener.onConnection(([reader, writer]) => {
+		let connection: Connection = _createConnection(reader, writer, strategy, factories, {
+			onDispose: () => connections.delete(connection)
+		});
+		connections.add(connection);
+		reader.onClose(() => connection.dispose());
+		connectionEmitter.fire(connection);
+	});
+	return {
+		onConnection: connectionEmitter.event,
+		onError: listener.onError,
+		get connections() { return Array.from(connections); },
+		dispose: () => {
+			subscription.dispose();
+			listener.dispose();
+			let toDispose = Array.from(connections);
+			connections.clear();
+			toDispose.forEach(connection => connection.dispose());
+			connectionEmitter.dispose();
+		}
+	};
+}
+
+interface Isolation {
+	onDispose(): void;
+}
+
 function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient = _, PWindow = _, PWorkspace = _>(
 	input?: NodeJS.ReadableStream | MessageReader, output?: NodeJS.WritableStream | MessageWriter, strategy?: ConnectionStrategy,
-	factories?: Features<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>
+	factories?: Features<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace>,
+	isolation?: Isolation
 ): Connection<PConsole, PTracer, PTelemetry, PClient, PWindow, PWorkspace> {
+	// An isolated connection shares the process with other clients.
+	const isolated = isolation !== void 0;
 	if (!input && !output && process.argv.length > 2) {
 		let port: number | undefined = void 0;
+		let webSocketPort: number | undefined = void 0;
 		let pipeName: string | undefined = void 0;
 		let argv = process.argv.slice(2);
 		for (let i = 0; i < argv.length; i++) {
@@ -1712,9 +1850,21 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 				input = process.stdin;
 				output = process.stdout;
 				break;
+			} else if (arg === '--worker') {
+				// worker_threads is only available in newer node versions, so require it lazily.
+				const parentPort = require('worker_threads').parentPort;
+				if (!parentPort) {
+					throw new Error('The --worker argument can only be used inside a worker thread.');
+				}
+				input = new MessagePortMessageReader(parentPort);
+				output = new MessagePortMessageWriter(parentPort);
+				break;
 			} else if (arg === '--socket') {
 				port = parseInt(argv[i + 1]);
 				break;
+			} else if (arg === '--websocket') {
+				webSocketPort = parseInt(argv[i + 1]);
+				break;
 			} else if (arg === '--pipe') {
 				pipeName = argv[i + 1];
 				break;
@@ -1724,6 +1874,9 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 				if (args[0] === '--socket') {
 					port = parseInt(args[1]);
 					break;
+				} else if (args[0] === '--websocket') {
+					webSocketPort = parseInt(args[1]);
+					break;
 				} else if (args[0] === '--pipe') {
 					pipeName = args[1];
 					break;
@@ -1734,13 +1887,17 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 			let transport = createServerSocketTransport(port);
 			input = transport[0];
 			output = transport[1];
+		} else if (webSocketPort) {
+			let transport = createServerWebSocketTransport(webSocketPort);
+			input = transport[0];
+			output = transport[1];
 		} else if (pipeName) {
 			let transport = createServerPipeTransport(pipeName);
 			input = transport[0];
 			output = transport[1];
 		}
 	}
-	var commandLineMessage = 'Use arguments of createConnection or set command line parameters: \'--node-ipc\', \'--stdio\' or \'--socket={number}\'';
+	var commandLineMessage = 'Use arguments of createConnection or set command line parameters: \'--node-ipc\', \'--stdio\', \'--worker\', \'--socket={number}\' or \'--websocket={number}\'';
 	if (!input) {
 		throw new Error('Connection input stream is not set. ' + commandLineMessage);
 	}
@@ -1761,6 +1918,9 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 
 	const logger = (factories && factories.console ? new (factories.console(ConnectionLogger))() : new ConnectionLogger()) as ConnectionLogger & PConsole;
 	const connection = createProtocolConnection(input as any, output as any, logger, strategy);
+	if (isolation) {
+		connection.onDispose(isolation.onDispose);
+	}
 	logger.rawAttach(connection);
 	const tracer = (factories && factories.tracer ? new (factories.tracer(TracerImpl))() : new TracerImpl()) as TracerImpl & PTracer;
 	const telemetry = (factories && factories.telemetry ? new (factories.telemetry(TelemetryImpl))() : new TelemetryImpl()) as Telemetry & PTelemetry;
@@ -1786,7 +1946,7 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 		listen: (): void => connection.listen(),
 
 		sendRequest: <R>(type: string | RPCMessageType, ...params: any[]): Thenable<R> => connection.sendRequest(Is.string(type) ? type : type.method, ...params),
-		onRequest: <R, E>(type: string | RPCMessageType | StarRequestHandler, handler?: GenericRequestHandler<R, E>): void => (connection as any).onRequest(type, handler),
+		onRequest: <R, E>(type: string | RPCMessageType | StarRequestHandler, handler?: GenericRequestHandler<R, E>): Disposable => (connection as any).onRequest(type, handler),
 
 		sendNotification: (type: string | RPCMessageType, param?: any): void => {
 			const method = Is.string(type) ? type : type.method;
@@ -1796,11 +1956,18 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 				connection.sendNotification(method, param);
 			}
 		},
-		onNotification: (type: string | RPCMessageType | StarNotificationHandler, handler?: GenericNotificationHandler): void => (connection as any).onNotification(type, handler),
+		onNotification: (type: string | RPCMessageType | StarNotificationHandler, handler?: GenericNotificationHandler): Disposable => (connection as any).onNotification(type, handler),
 
 		onProgress: connection.onProgress,
+		progressIterator: connection.progressIterator,
 		sendProgress: connection.sendProgress,
 
+		addInterceptor: (interceptor) => connection.addInterceptor(interceptor),
+		record: (recorder) => connection.record(recorder),
+		getStatistics: () => connection.getStatistics(),
+		onStatistics: connection.onStatistics,
+		onUnresponsive: connection.onUnresponsive,
+
 		onInitialize: (handler) => initializeHandler = handler,
 		onInitialized: (handler) => connection.onNotification(InitializedNotification.type, handler),
 		onShutdown: (handler) => shutdownHandler = handler,
@@ -1908,7 +2075,7 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 
 	connection.onRequest(InitializeRequest.type, (params) => {
 		const processId = params.processId;
-		if (Is.number(processId) && exitTimer === void 0) {
+		if (!isolated && Is.number(processId) && exitTimer === void 0) {
 			// We received a parent process id. Set up a timer to periodically check
 			// if the parent is still alive.
 			setInterval(() => {
@@ -1961,7 +2128,9 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 	});
 
 	connection.onRequest<void, void, void>(ShutdownRequest.type, () => {
-		shutdownReceived = true;
+		if (!isolated) {
+			shutdownReceived = true;
+		}
 		if (shutdownHandler) {
 			return shutdownHandler(new CancellationTokenSource().token);
 		} else {
@@ -1975,7 +2144,9 @@ function _createConnection<PConsole = _, PTracer = _, PTelemetry = _, PClient =
 				exitHandler();
 			}
 		} finally {
-			if (shutdownReceived) {
+			if (isolated) {
+				protocolConnection.dispose();
+			} else if (shutdownReceived) {
 				process.exit(0);
 			} else {
 				process.exit(1);
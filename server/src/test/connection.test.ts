@@ -6,10 +6,16 @@
 
 import * as assert from 'assert';
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { Duplex } from 'stream';
 import {
 	InitializeParams, InitializeRequest, InitializeResult, createConnection, DidChangeConfigurationNotification,
-	DidChangeConfigurationParams, IConnection, DeclarationRequest, ProgressToken
+	DidChangeConfigurationParams, IConnection, DeclarationRequest, ProgressToken,
+	SessionRecorder, readSession, replaySession, StreamMessageReader, StreamMessageWriter, HoverRequest,
+	createRpcInterface, RequestType, NotificationType, ErrorCodes, createMemoryTransports,
+	createConnectionListener, createPipeListener, createServerPipeTransport, generateRandomPipeName, ExitNotification
 } from '../main';
 import { DeclarationParams } from 'vscode-languageserver-protocol/lib/protocol.declaration';
 import { WorkDoneProgress } from 'vscode-languageserver-protocol/lib/protocol.progress.proposed';
@@ -59,6 +65,17 @@ describe('Connection Tests', () => {
 		assert.ok(paramsCorrect, 'Parameters are transferred correctly');
 	});
 
+	it('Rejects invalid request parameters', async () => {
+		serverConnection.onHover(() => ({ contents: 'hover' }));
+		try {
+			await clientConnection.sendRequest(HoverRequest.type.method, { textDocument: { uri: 'file:///a.txt' } });
+			assert.fail('Request should fail');
+		} catch (error) {
+			assert.strictEqual(error.code, ErrorCodes.InvalidParams);
+			assert.strictEqual(error.message, 'Request textDocument/hover has invalid parameters: position must be a position');
+		}
+	});
+
 	it('Ensure notification parameter passing', (done) => {
 		serverConnection.onNotification(DidChangeConfigurationNotification.type, (params) => {
 			assert.ok(!Array.isArray(params), 'Parameters are transferred correctly');
@@ -178,4 +195,134 @@ describe('Connection Tests', () => {
 			done();
 		});
 	});
-});
\ No newline at end of file
+});
+
+describe('Session Recording Tests', () => {
+	let file: string;
+
+	setup(() => {
+		file = path.join(os.tmpdir(), `languageserver-session-${process.pid}-${Date.now()}.jsonl`);
+	});
+
+	teardown(() => {
+		if (fs.existsSync(file)) {
+			fs.unlinkSync(file);
+		}
+	});
+
+	function createServer(up: TestStream, down: TestStream, hover: string): IConnection {
+		const connection = createConnection(up, down);
+		connection.onInitialize(() => ({ capabilities: { hoverProvider: true } }));
+		connection.onHover(() => ({ contents: hover }));
+		connection.listen();
+		return connection;
+	}
+
+	it('Replays a recorded session against a server', async () => {
+		let up = new TestStream();
+		let down = new TestStream();
+		const server = createServer(up, down, 'hover');
+		const recorder = new SessionRecorder(file);
+		server.record(recorder);
+		const client = createConnection(down, up);
+		client.listen();
+		const init: InitializeParams = { rootUri: null, processId: 1, capabilities: {}, workspaceFolders: null };
+		await client.sendRequest(InitializeRequest.type, init);
+		await client.sendRequest(HoverRequest.type, { textDocument: { uri: 'file:///a.txt' }, position: { line: 0, character: 0 } });
+		recorder.dispose();
+		server.dispose();
+		client.dispose();
+
+		up = new TestStream();
+		down = new TestStream();
+		const changed = createServer(up, down, 'changed');
+		const result = await replaySession(readSession(file), new StreamMessageReader(down), new StreamMessageWriter(up));
+		changed.dispose();
+		assert.strictEqual(result.requests, 2);
+		assert.strictEqual(result.differences.length, 1);
+		assert.strictEqual(result.differences[0].request.method, HoverRequest.type.method);
+		assert.deepStrictEqual(result.differences[0].actual!.result, { contents: 'changed' });
+	});
+});
+
+describe('RPC Interface Tests', () => {
+
+	it('Implements and calls an interface over server connections', async () => {
+		const up = new TestStream();
+		const down = new TestStream();
+		const server = createConnection(up, down);
+		const client = createConnection(down, up);
+		const rpc = createRpcInterface({
+			echo: new RequestType<string, string, void, void>('test/echo'),
+			log: new NotificationType<string, void>('test/log')
+		});
+		const logged: string[] = [];
+		rpc.implement(server, {
+			echo: (value) => value + value,
+			log: (message) => { logged.push(message); }
+		});
+		server.listen();
+		client.listen();
+		const proxy = rpc.createProxy(client);
+		proxy.log('hello');
+		assert.strictEqual(await proxy.echo('foo'), 'foofoo');
+		assert.deepStrictEqual(logged, ['hello']);
+		server.dispose();
+		client.dispose();
+	});
+});
+
+describe('Memory Transport Tests', () => {
+
+	it('Connects server connections without streams', async () => {
+		const [[serverReader, serverWriter], [clientReader, clientWriter]] = createMemoryTransports();
+		const server = createConnection(serverReader, serverWriter);
+		const client = createConnection(clientReader, clientWriter);
+		server.onHover(() => ({ contents: 'hover' }));
+		server.listen();
+		client.listen();
+		const hover = await client.sendRequest(HoverRequest.type, { textDocument: { uri: 'file:///a.txt' }, position: { line: 0, character: 0 } });
+		assert.deepStrictEqual(hover, { contents: 'hover' });
+		server.dispose();
+		client.dispose();
+	});
+});
+
+describe('Connection Listener Tests', () => {
+
+	it('Creates an isolated connection per client', async () => {
+		const pipeName = generateRandomPipeName();
+		const listener = createConnectionListener(await createPipeListener(pipeName));
+		const roots: (string | null)[] = [];
+		listener.onConnection((connection) => {
+			connection.onInitialize((params) => {
+				roots.push(params.rootUri);
+				return { capabilities: {} };
+			});
+			connection.listen();
+		});
+		const clients = ['file:///a', 'file:///b'].map((rootUri) => {
+			const [reader, writer] = createServerPipeTransport(pipeName);
+			const client = createConnection(reader, writer);
+			client.listen();
+			return { client, init: client.sendRequest(InitializeRequest.type, { rootUri, processId: null, capabilities: {}, workspaceFolders: null }) };
+		});
+		await Promise.all(clients.map(entry => entry.init));
+		assert.deepStrictEqual(roots.sort(), ['file:///a', 'file:///b']);
+
+		// Exit only disposes the connection of the client sending it.
+		const disposed = new Promise<void>((resolve) => {
+			const check = setInterval(() => {
+				if (listener.connections.length === 1) {
+					clearInterval(check);
+					resolve();
+				}
+			}, 10);
+		});
+		clients[0].client.sendNotification(ExitNotification.type);
+		await disposed;
+		listener.dispose();
+		assert.strictEqual(listener.connections.length, 0);
+		clients.forEach(entry => entry.client.dispose());
+	});
+});